@@ -1,6 +1,14 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
-import { workflow, validation_schema, validation_schema_file, playbook, getVarsFiles, sequentialTasks, sequentialPlaybooks, selectValidationSchema } from './extension.js';
+import fsPromises from 'fs/promises';
+import { getVarsFiles, readValidationSchema } from './extension.js';
+import { TaskContext, getDocumentTask } from './session.js';
+import { loadYamaleSchema, validateYamale, formatYamaleErrors, YamaleError } from './yamaleValidator.js';
+import { setDiagnostics, findingDiagnostics } from './diagnostics.js';
+import { Finding, FindingTool, VarsFileFindings, yamaleFindings, runYamlLint, runAnsibleLint } from './findings.js';
+import { detectVarsFileTask } from './schemaDetection.js';
+
+// number of vars files validated at the same time when validating many files (each runs ansible-lint & yamllint processes)
+const MAX_PARALLEL_VALIDATIONS = 4;
 
 // global state variables shared across annotations functions
 let activeDecorations: vscode.TextEditorDecorationType[] = []; 
@@ -8,79 +16,22 @@ const decoratedLines = new Set<number>();
 
 /**
  * Generates annotations for YAML vars file using Yamale validation schema: 
- * Retrieves validation schema file, runs yamale command on vars file, and generates annotations based on yamale output.
+ * Validates vars file against the validation schema file of the given task in-process, and generates annotations at the exact lines of the errors.
  * Returns Yamale output message.
  */
-async function yamale(annotations: boolean = true, tempFilePath: string = "", textEditor?: vscode.TextEditor, valPath: string = ""): Promise<string[]> {
+async function yamale(task: TaskContext | undefined, annotations: boolean = true, tempFilePath: string = "", textEditor?: vscode.TextEditor): Promise<string[]> {
     console.log("Checking file syntax with Yamale...");
-    let validationFilePath = "";
-
-    console.log("Sequential tasks?: ", sequentialTasks);
-    console.log("Sequential playbooks: ", sequentialPlaybooks);
-
-    // if sequential tasks have been identified, provide playbook options to user (to identify validation schema)
-    if (sequentialTasks && valPath == "") {
-        // add steps to sequential playbooks to make it easier for user to identify
-        for (let i = 0; i < sequentialPlaybooks.length; i++) {
-            if (!sequentialPlaybooks[i].includes("Step")) {
-                sequentialPlaybooks[i] = `Step ${i + 1}: ${sequentialPlaybooks[i]}`;
-            }
-        }
 
-        // create quick pick menu to allow user to select a playbook for validation
-        const selectedPlaybook = await vscode.window.showQuickPick(sequentialPlaybooks, {
-            placeHolder: "Select a playbook to validate your vars file against",
-            matchOnDescription: true
-        });
-
-        // retrieve full playbook path to identify workflow
-        const formattedPlaybook = selectedPlaybook ? selectedPlaybook.replace(/Step \d+: /, '') : '';
-        const playbookUri = await vscode.workspace.findFiles(`**/ai-assistant-catalyst-center-ansible-iac/**/playbook/${formattedPlaybook}`);
-        const fullPlaybookPath = playbookUri[0].fsPath;
-        const taskWorkflow = fullPlaybookPath.split('/workflows/')[1].split('/')[0];
-
-        // identify validation schema file and content based on user selection
-        const uris = await vscode.workspace.findFiles(`**/ai-assistant-catalyst-center-ansible-iac/workflows/${taskWorkflow}/schema/*_schema.yml`);
-        let fileNames = uris.map(uri => uri.fsPath);
-
-        // if playbook includes "delete", schema should include "delete" in name
-        if (fileNames.length > 1 && formattedPlaybook.includes('delete')) {
-            fileNames = fileNames.filter(file => file.includes('delete'));
+    // handle case where workflow & validation schema have not been identified for this vars file
+    if (!task?.schemaFile) {
+        if (task?.workflow) {
+            vscode.window.showErrorMessage("Validation schema is not available for the identified workflow.");
         } else {
-            fileNames = fileNames.filter(file => !file.includes('delete'));
-        }
-
-        if (fileNames.length !== 0 && fileNames[0]) {
-            validationFilePath = fileNames[0];
-        }
-
-    } else if (sequentialTasks && valPath != "") {
-        // if sequential tasks have been identified and validation path is provided, use it
-        validationFilePath = valPath;
-    } else {
-        // else handle singular vars file validation
-        // handle case where workflow & validation_schema have not been identified
-        if (!(workflow && validation_schema_file)) {
-            if (!validation_schema_file && workflow) {
-                vscode.window.showErrorMessage("Validation schema is not available for the identified workflow.");
-            } else {
-            vscode.window.showErrorMessage("Please use @assistant chat feature to identify playbook before performing validation.");
-            }
-            return [];
-        }
-
-        // get schema validation file path from cloned GitHub repo in user's workspace
-        const uris = await vscode.workspace.findFiles("**/ai-assistant-catalyst-center-ansible-iac/**/*_schema.yml");
-        const fileNames = uris.map(uri => uri.fsPath);
-
-        // identify schema file path from all file paths 
-        for (const f of fileNames) {
-            if (f.includes(validation_schema_file)) {
-                validationFilePath = f;
-                break;
-            }
+            vscode.window.showErrorMessage("Please use @assistant chat feature or the \"Bind Vars File to Workflow\" command to identify playbook before performing validation.");
         }
+        return [];
     }
+    const validationFilePath = task.schemaFile;
 
     // identify vars file path from text editor or temp file path parameter
     let varsFilePath = "";
@@ -93,75 +44,66 @@ async function yamale(annotations: boolean = true, tempFilePath: string = "", te
     // validation variables for Yamale annotations
     let validationFailed = false;
     let validationError = "";
-    let numSuggestions = -1;
-    let formattedYamaleErrors: string[] = [];
+    let yamaleErrors: YamaleError[] = [];
     let successfulValidation = false;
 
-    // get Yamale path from settings.json configuration
-    const yamalePath = vscode.workspace.getConfiguration('nac-copilot').get<string>('yamalePath');
-
     console.log(`Running Yamale validation on ${varsFilePath} with schema ${validationFilePath}...`);
 
-    // run Yamale terminal command using validation schema and vars files
+    // validate vars file in-process against the Yamale schema (text editor content includes unsaved edits)
     let yamaleOutputMessage: string = "";
-    await new Promise<void>((resolve, reject) => {
-        exec(`"${yamalePath}" -s "${validationFilePath}" -v "${varsFilePath}"`, (error: any, stdout: string, stderr: string) => {
-            if (stdout) {
-                yamaleOutputMessage = stdout;
-            }
-            // if errors, send message to user logging them
-            if (stderr) {
-                let yamaleErrorOutput = stderr.split('\n').filter(line => line.trim() !== '');
-                yamaleErrorOutput = yamaleErrorOutput.slice(yamaleErrorOutput.length-2);
-                let error = "\n";
-                for (const e of yamaleErrorOutput) {
-                    error += e;
-                }
-                console.log("Yamale error output: ", error);
-                yamaleOutputMessage = error;
-                // if displaying annotations, notify user of validation error through error message
-                if (annotations) {
-                    vscode.window.showErrorMessage(`Validation Error: ${error}`);
-                }
-            } else if (stdout.includes("Validation failed!")) {
-                const yamaleOutput = stdout.split('\n').filter(line => line.trim() !== '').slice(1);
-        
-                let error = "";
-                for (const e of yamaleOutput.slice(1)) {
-                    error += e + "\n";
-                    numSuggestions += 1;
-                }
-                console.log("Yamale validation error output: ", error);
-
-                yamaleOutputMessage = error;
-                // if displaying annotations, notify user of validation error through error message & output channel
-                if (annotations) {
-                    vscode.window.showErrorMessage(`Validation Failed: Check output channel for details.`);
-                    const outputChannel = vscode.window.createOutputChannel('NaC AI Assistant');
-                    outputChannel.appendLine('\nValidation Error:\n' + error);
-                    outputChannel.show(true); 
-                    validationFailed = true;
-                    validationError = error;
-                    formattedYamaleErrors = yamaleOutput.slice(2);
-                }
-            } else {
-                // if no errors, display success statement
-                yamaleOutputMessage = stdout.split('\n').filter(line => line.trim() !== '').slice(1).join('\n');
-                successfulValidation = true;
-
-                // if displaying annotations & text editor available, clear all active decorations
-                if (annotations && textEditor) {
-                    for (const d of activeDecorations) {
-                        textEditor.setDecorations(d, []);
-                        d.dispose();
-                    }
-                    activeDecorations = [];
-                    decoratedLines.clear();
-                }
+    try {
+        const schema = await loadYamaleSchema(validationFilePath);
+        const varsContent = textEditor && !tempFilePath ? textEditor.document.getText() : await fsPromises.readFile(varsFilePath, 'utf8');
+        yamaleErrors = validateYamale(schema, varsContent);
+    } catch (error) {
+        const message = `\n${error instanceof Error ? error.message : error}`;
+        console.log("Yamale error output: ", message);
+        // if displaying annotations, notify user of validation error through error message
+        if (annotations) {
+            vscode.window.showErrorMessage(`Validation Error: ${message}`);
+        }
+        return ["false", message];
+    }
+
+    // publish errors of the open vars file to the Problems panel
+    const document = textEditor && !tempFilePath ? textEditor.document : undefined;
+    if (document) {
+        setDiagnostics('yamale', document.uri, findingDiagnostics(yamaleFindings(yamaleErrors), document));
+    }
+
+    if (yamaleErrors.length > 0) {
+        // format errors like the Yamale CLI output: "<key_path>: <error_message>"
+        let error = `Error validating data '${varsFilePath}' with schema '${validationFilePath}'\n`;
+        for (const e of formatYamaleErrors(yamaleErrors)) {
+            error += `\t${e}\n`;
+        }
+        console.log("Yamale validation error output: ", error);
+
+        yamaleOutputMessage = error;
+        // if displaying annotations, notify user of validation error through error message & output channel
+        if (annotations) {
+            vscode.window.showErrorMessage(`Validation Failed: Check output channel for details.`);
+            const outputChannel = vscode.window.createOutputChannel('NaC AI Assistant');
+            outputChannel.appendLine('\nValidation Error:\n' + error);
+            outputChannel.show(true); 
+            validationFailed = true;
+            validationError = error;
+        }
+    } else {
+        // if no errors, display success statement
+        yamaleOutputMessage = "Validation success! 👍";
+        successfulValidation = true;
+
+        // if displaying annotations & text editor available, clear all active decorations
+        if (annotations && textEditor) {
+            for (const d of activeDecorations) {
+                textEditor.setDecorations(d, []);
+                d.dispose();
             }
-            resolve();
-        });
-    });
+            activeDecorations = [];
+            decoratedLines.clear();
+        }
+    }
 
     if (annotations && textEditor) {
         // if validation failed, generate annotations based on Yamale output
@@ -169,7 +111,8 @@ async function yamale(annotations: boolean = true, tempFilePath: string = "", te
             console.log("Validation failure detected, generating annotations...");
 
             // get sample vars files for later use
-            const varsFiles = await getVarsFiles(workflow, true, playbook);
+            const varsFiles = await getVarsFiles(task.workflow, true, task.playbook);
+            const validationSchema = await readValidationSchema(task.schemaFile);
 
             // LLM prompt for generating annotations
             const ERROR_PROMPT = `You are a code assistant who helps customers fix their YAML code based on Yamale validation errors. 
@@ -194,9 +137,9 @@ async function yamale(annotations: boolean = true, tempFilePath: string = "", te
             ["suggestion 1", "suggestion 2", "suggestion 3"]
 
             The suggestions should be ordered such that each suggestion corresponds to ONE error in the Yamale output. THERE SHOULD NOT BE MORE SUGGESTIONS THAN ERRORS.
-            FOR THIS SPECIFIC PROMPT, YOU SHOULD HAVE ${numSuggestions} SUGGESTIONS ONLY.
+            FOR THIS SPECIFIC PROMPT, YOU SHOULD HAVE ${yamaleErrors.length} SUGGESTIONS ONLY.
 
-            For this specific prompt, here is the workflow: ${workflow}, playbook: ${playbook}, and validation schema: \n ${validation_schema} \n
+            For this specific prompt, here is the workflow: ${task.workflow}, playbook: ${task.playbook}, and validation schema: \n ${validationSchema} \n
             Here is also an example of a vars file that follows the validation schema: \n ${varsFiles} \n
             Here is the Yamale error output: \n ${validationError} \n`;
 
@@ -238,8 +181,13 @@ async function yamale(annotations: boolean = true, tempFilePath: string = "", te
                     const accumulatedChatResponseList: string[] = JSON.parse(accumulatedChatResponse);
                     console.log("Accumulated chat response received: ", accumulatedChatResponseList);
 
-                    // retrieve line numbers for suggestions as a list
-                    const lineNumbers = await yamaleAnnotationLines(formattedYamaleErrors, textEditor);
+                    // keep suggestions with their errors in the Problems panel as related information
+                    if (document) {
+                        setDiagnostics('yamale', document.uri, findingDiagnostics(yamaleFindings(yamaleErrors), document, accumulatedChatResponseList));
+                    }
+
+                    // line numbers for suggestions come straight from the source ranges of the validation errors
+                    const lineNumbers = yamaleErrors.map(e => e.start.line + 1);
 
                     // format response as JSON objects with line numbers & suggestions
                     let response = "";
@@ -265,104 +213,11 @@ async function yamale(annotations: boolean = true, tempFilePath: string = "", te
 }
 
 /**
- * Identified line numbers for Yamale annotations based on validation schema error output: 
- * Utilizes format of Yamale error output message to identify appropriate field lines to annotate.
- * Example error output: "device.3.type: Required field missing"
- * Returns line numbers as a list of numbers per validation error.
+ * Generates diagnostics for YAML vars file using YAMLlint and Ansible Lint: 
+ * Retrieves vars file, runs ansible-lint (codeclimate format) & yamllint (parsable format) on vars file, and publishes findings of the open vars file to the Problems panel.
+ * Returns Ansible Lint & YAMLlint findings, in that order.
  */
-async function yamaleAnnotationLines(response: string[], textEditor: vscode.TextEditor): Promise<number[]> {
-    let lines: number[] = [];
-    const codeWithLineNumbers = getVisibleCodeWithLineNumbers(textEditor);
-
-    for (const r of response) {
-        // separate each error response by "." to get separated fields
-        const parts = r.split(":")[0].split(".");
-
-        // if just 1 part, add suggestion to line 1
-        if (parts.length === 1) {
-            lines.push(1);
-            continue;
-        } else if (parts.length > 1) {
-            let keyParts: string[];
-            // if error response includes "missing", add annotation to parent field
-            if (r.includes("missing")) {
-                // find location of second to last part if field missing
-                keyParts = parts.slice(0, -1);
-            } else {
-                // else keep all parts
-                keyParts = parts;
-            }
-
-            console.log("Key parts identified for annotation: ", keyParts);
-
-            let currentLine = 1;
-            for (const p of keyParts) {
-                // check if part is a number
-                if (isNaN(parseInt(p, 10))) {
-                    // find part p in code starting from currentLine
-                    const splitCodeLines = codeWithLineNumbers.split('\n');
-                    for(let i = currentLine; i < splitCodeLines.length; i++) {
-                        const lineWithoutNumber = splitCodeLines[i].replace(/^\d+:\s*/, '');
-
-                        // if line contains part p, set currentLine to this line & proceed to next part
-                        if (lineWithoutNumber.trim().includes(p)) {
-                            // retrieve line number of this line
-                            const matchLine = splitCodeLines[i].match(/^\d+/);
-                            if (matchLine) {
-                                currentLine = parseInt(matchLine[0], 10);
-                            }
-                            break;
-                        }
-                    }
-                } else {
-                    // if part is a number, find pth "-" after currentLine
-                    let numDashes = 0;
-                    const splitCodeLines = codeWithLineNumbers.split('\n');
-                    let foundFirstElem = false;
-                    let indentation = "";
-
-                    for(let i = currentLine; i < splitCodeLines.length; i++) {
-                        const lineWithoutNumber = splitCodeLines[i].replace(/^\d+:\s*/, '');
-
-                        // if line starts with "-", check if it matches current list indentation
-                        if (lineWithoutNumber.trim().startsWith('-')) {
-                            // find indentation of first list element for future matching
-                            if (!foundFirstElem) {
-                                const matchIndent = lineWithoutNumber.match(/^(\s*)-/);
-                                if (matchIndent) {
-                                    indentation = matchIndent[1];
-                                    foundFirstElem = true;
-                                }
-                            }
-
-                            // if number of dashes matches p & indentation matches, set currentLine to this line
-                            if (numDashes === parseInt(p, 10) && lineWithoutNumber.startsWith(indentation + "-")) {
-                                // retrieve line number of this line
-                                const matchLine = splitCodeLines[i].match(/^\d+/);
-                                if (matchLine) {
-                                    currentLine = parseInt(matchLine[0], 10);
-                                }
-                                break;
-                            }
-                            numDashes += 1;
-                        }
-                    }
-                }
-            }
-            // add line found after parsing all parts to annotation lines
-            lines.push(currentLine);
-        }
-    }
-    console.log("Identified line numbers for Yamale annotations: ", lines);
-    return lines;
-}
-
-/**
- * Generates annotations for YAML vars file using YAMLlint and Ansible Lint: 
- * Retrieves vars file, runs yamllint & ansible-lint commands on vars file, and generates annotations based on output.
- * Returns YAMLlint & Ansible Lint output messages as a list of strings
- */
-async function ansibleYAMLLint(annotations: boolean = true, tempFilePath: string = "", textEditor?: vscode.TextEditor): Promise<string[]> {
+async function ansibleYAMLLint(annotations: boolean = true, tempFilePath: string = "", textEditor?: vscode.TextEditor): Promise<Finding[]> {
     console.log("Checking file syntax with Ansible Lint & YAMLlint...");
 
     // identify vars file path from text editor or temp file path parameter
@@ -374,73 +229,83 @@ async function ansibleYAMLLint(annotations: boolean = true, tempFilePath: string
     } 
     const varsFileExtension = varsFilePath.split('.').pop()?.toLowerCase();
 
-    // get Ansible Lint & YAMLlint paths from settings.json configuration
-    const ansibleLintPath = vscode.workspace.getConfiguration('nac-copilot').get<string>('ansibleLintPath');
-    const yamlLintPath = vscode.workspace.getConfiguration('nac-copilot').get<string>('yamlLintPath');
-
-    let lintOutput = ["", ""];
- 
     // ensure that vars file is YAML file
-    if (varsFileExtension === 'yaml' || varsFileExtension === 'yml') {
-        // run ansible-lint terminal command on vars file
-        await new Promise<void>((resolve, reject) => {
-            exec(`"${ansibleLintPath}" "${varsFilePath}"`, (error: any, stdout: string, stderr: string) => {
-                // if no errors, get output
-                if (stdout) {
-                    lintOutput[0] = stdout;
-                    const ansibleLintOutput = stdout.split('\n').filter(line => line.trim() !== '');
-                    console.log("Ansible Lint output: ", ansibleLintOutput);
-
-                    // if displaying annotations & text editor available, generate annotations based on Ansible Lint output
-                    if (annotations && textEditor) {
-                        for (let i = 0; i < ansibleLintOutput.length; i+=2) {
-                            const message = ansibleLintOutput[i];
-                            const file = ansibleLintOutput[i+1];
-                            // extract line number and message from output
-                            // Ansible Lint output format: "filename:line_number: message"
-                            const match = file.match(/:(\d+)$/);
-                            if (match) {
-                                const lineNumber = parseInt(match[1], 10);
-                                const suggestion = message;
-                                // apply decoration to text editor to generate annotations
-                                applyDecoration(textEditor, lineNumber, suggestion);
-                            }
-                        }
-                    }
-                }
-                resolve();
-            });
-        });
-
-        // run yamllint terminal command on vars file
-        await new Promise<void>((resolve, reject) => {
-            exec(`"${yamlLintPath}" "${varsFilePath}"`, (error: any, stdout: string, stderr: string) => {
-                // if no errors, get output
-                if (stdout) {
-                    lintOutput[1] = stdout;
-                    const yamlLintOutput = stdout.split('\n').filter(line => line.trim() !== '');
-                    console.log("YAMLlint output: ", yamlLintOutput);
-
-                    // if displaying annotations & text editor available, generate annotations based on YAMLlint output
-                    if (annotations && textEditor) {
-                        // YAMLlint output format: "line_number:column_number: [level] message"
-                        for (let i = 1; i < yamlLintOutput.length; i+=1) {
-                            const message = yamlLintOutput[i];
-                            const output = message.split('  ').filter(entry => entry !== '');
-                            const lineNumber = parseInt(output[0].split(':')[0]);
-                            const suggestion = "[yamllint]: " + output[2];
-
-                            // apply decoration to text editor to generate annotations
-                            applyDecoration(textEditor, lineNumber, suggestion);
-                        }
-                    }
-                }
-                resolve();
-            });
-        });
+    if (varsFileExtension !== 'yaml' && varsFileExtension !== 'yml') {
+        return [];
+    }
+
+    const ansibleLintFindings = await runAnsibleLint(varsFilePath);
+    console.log("Ansible Lint findings: ", ansibleLintFindings);
+    const yamlLintFindings = await runYamlLint(varsFilePath);
+    console.log("YAMLlint findings: ", yamlLintFindings);
+
+    // publish findings of the open vars file to the Problems panel (tools that could not be run clear their diagnostics)
+    const document = annotations && textEditor && !tempFilePath ? textEditor.document : undefined;
+    if (document) {
+        setDiagnostics('ansible-lint', document.uri, findingDiagnostics(ansibleLintFindings || [], document));
+        setDiagnostics('yamllint', document.uri, findingDiagnostics(yamlLintFindings || [], document));
     }
 
-    return lintOutput;
+    return [...ansibleLintFindings || [], ...yamlLintFindings || []];
+}
+
+/**
+ * Validates a vars file on disk without an open editor or AI suggestions (e.g. for validation reports):
+ * Yamale against the schema of the file's bound (or unambiguously detected) task, Ansible Lint & YAMLlint.
+ * Returns findings of all tools that could be run.
+ */
+async function validateVarsFile(uri: vscode.Uri): Promise<VarsFileFindings> {
+    const file = vscode.workspace.asRelativePath(uri, false);
+    const content = await fsPromises.readFile(uri.fsPath, 'utf8');
+    const task = getDocumentTask(uri) || await detectVarsFileTask(content, file);
+    const tools: FindingTool[] = [];
+    const findings: Finding[] = [];
+
+    if (task?.schemaFile) {
+        tools.push('yamale');
+        try {
+            findings.push(...yamaleFindings(validateYamale(await loadYamaleSchema(task.schemaFile), content)));
+        } catch (error) {
+            // report unreadable schemas as a finding, so the file doesn't pass silently
+            findings.push({ tool: 'yamale', rule: 'schema', severity: 'error', line: 1, column: 1, message: `${error instanceof Error ? error.message : error}` });
+        }
+    }
+
+    // linters run as separate processes, so both run in parallel
+    const [ansibleLintFindings, yamlLintFindings] = await Promise.all([runAnsibleLint(uri.fsPath), runYamlLint(uri.fsPath)]);
+    if (ansibleLintFindings) {
+        tools.push('ansible-lint');
+        findings.push(...ansibleLintFindings);
+    }
+    if (yamlLintFindings) {
+        tools.push('yamllint');
+        findings.push(...yamlLintFindings);
+    }
+
+    return { file, task, tools, findings };
+}
+
+/**
+ * Validates many vars files on disk, at most MAX_PARALLEL_VALIDATIONS at a time, calling onResult as each file completes.
+ * Files that fail to validate (e.g. unreadable) are left out. Stops starting new files if cancelled.
+ * Returns findings per file in the order of the given files.
+ */
+async function validateVarsFiles(uris: vscode.Uri[], onResult?: (result: VarsFileFindings) => void, token?: vscode.CancellationToken): Promise<VarsFileFindings[]> {
+    const results: (VarsFileFindings | undefined)[] = new Array(uris.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < uris.length && !token?.isCancellationRequested) {
+            const index = next++;
+            try {
+                results[index] = await validateVarsFile(uris[index]);
+                onResult?.(results[index]!);
+            } catch (error) {
+                console.error(`Error validating ${uris[index].fsPath}: `, error);
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_VALIDATIONS, uris.length) }, worker));
+    return results.filter((r): r is VarsFileFindings => r !== undefined);
 }
 
 /**
@@ -529,4 +394,4 @@ function getVisibleCodeWithLineNumbers(textEditor: vscode.TextEditor) {
 	return code;
 }
 
-export { yamale, ansibleYAMLLint };
\ No newline at end of file
+export { yamale, ansibleYAMLLint, validateVarsFile, validateVarsFiles };
\ No newline at end of file
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { isVarsFile } from './bindings.js';
+import { setDiagnostics, getDiagnostics, hasDiagnostics, findingDiagnostics, DiagnosticTool } from './diagnostics.js';
+import { yamaleFindings, runYamlLint } from './findings.js';
+import { getDocumentTask } from './session.js';
+import { loadYamaleSchema, validateYamale } from './yamaleValidator.js';
+
+// tools whose diagnostics count towards the pass / fail status of a vars file
+const STATUS_TOOLS: DiagnosticTool[] = ['yamale', 'yamllint', 'ansible-lint'];
+
+// global state variables shared across auto validation functions
+// validated documents map to whether their schema was checked too (false if only yamllint ran)
+const pendingValidations = new Map<string, NodeJS.Timeout>();
+const validatedDocuments = new Map<string, boolean>();
+let statusBarItem: vscode.StatusBarItem | undefined;
+
+/**
+ * Registers opt-in automatic validation of vars files (nac-copilot.validateOnSave / validateOnType settings)
+ * & the status bar item showing whether the open vars file passed.
+ */
+function registerAutoValidation(context: vscode.ExtensionContext) {
+    statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    statusBarItem.command = 'validate-and-lint';
+    context.subscriptions.push(statusBarItem);
+
+    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
+        if (getSetting('validateOnSave') && shouldValidate(document)) {
+            cancelPendingValidation(document.uri);
+            validateDocument(document, false);
+        }
+    }));
+
+    context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.contentChanges.length > 0 && getSetting('validateOnType') && shouldValidate(event.document)) {
+            scheduleValidation(event.document);
+        }
+    }));
+
+    context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => {
+        cancelPendingValidation(document.uri);
+        validatedDocuments.delete(document.uri.toString());
+    }));
+
+    context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(() => updateStatusBar()));
+    context.subscriptions.push(vscode.languages.onDidChangeDiagnostics(() => updateStatusBar()));
+    updateStatusBar();
+}
+
+/**
+ * Returns a boolean auto validation setting from settings.json configuration.
+ */
+function getSetting(name: 'validateOnSave' | 'validateOnType'): boolean {
+    return vscode.workspace.getConfiguration('nac-copilot').get<boolean>(name, false);
+}
+
+/**
+ * Checks whether a document should be validated automatically: YAML files under data/ or data_deletion/, or bound to a workflow.
+ */
+function shouldValidate(document: vscode.TextDocument): boolean {
+    return document.uri.scheme === 'file' && (isVarsFile(document.uri) || !!getDocumentTask(document.uri));
+}
+
+/**
+ * Validates a document once the user stops typing for nac-copilot.validateOnTypeDelay milliseconds.
+ */
+function scheduleValidation(document: vscode.TextDocument) {
+    cancelPendingValidation(document.uri);
+    const delay = vscode.workspace.getConfiguration('nac-copilot').get<number>('validateOnTypeDelay', 500);
+    pendingValidations.set(document.uri.toString(), setTimeout(() => {
+        pendingValidations.delete(document.uri.toString());
+        validateDocument(document, true);
+    }, delay));
+}
+
+function cancelPendingValidation(uri: vscode.Uri) {
+    const pending = pendingValidations.get(uri.toString());
+    if (pending) {
+        clearTimeout(pending);
+        pendingValidations.delete(uri.toString());
+    }
+}
+
+/**
+ * Validates a document without AI suggestions: Yamale schema check (if the document is bound to a schema) & yamllint.
+ * Unsaved changes are piped to yamllint through stdin, so as-you-type validation doesn't need the file to be saved.
+ */
+async function validateDocument(document: vscode.TextDocument, unsaved: boolean) {
+    if (document.isClosed) {
+        return;
+    }
+
+    const task = getDocumentTask(document.uri);
+    let schemaChecked = false;
+    if (task?.schemaFile) {
+        try {
+            const errors = validateYamale(await loadYamaleSchema(task.schemaFile), document.getText());
+            setDiagnostics('yamale', document.uri, findingDiagnostics(yamaleFindings(errors), document));
+            schemaChecked = true;
+        } catch (error) {
+            console.error("Error validating vars file automatically: ", error);
+        }
+    }
+
+    const content = document.getText();
+    const findings = await runYamlLint(document.uri.fsPath, unsaved ? content : undefined);
+    // skip stale results if the document changed while yamllint was running
+    if (findings && !document.isClosed && document.getText() === content) {
+        setDiagnostics('yamllint', document.uri, findingDiagnostics(findings, document));
+    }
+
+    validatedDocuments.set(document.uri.toString(), schemaChecked);
+    updateStatusBar();
+}
+
+/**
+ * Shows pass / fail of the active vars file in the status bar, hiding the item for other files.
+ * Counts are refreshed from the diagnostics, which also change when the Validate & Lint command runs.
+ */
+function updateStatusBar() {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!statusBarItem || !document || !shouldValidate(document)) {
+        statusBarItem?.hide();
+        return;
+    }
+
+    const schemaChecked = validatedDocuments.get(document.uri.toString());
+    const validated = schemaChecked !== undefined || STATUS_TOOLS.some(tool => hasDiagnostics(tool, document.uri));
+    const diagnostics = STATUS_TOOLS.flatMap(tool => getDiagnostics(tool, document.uri));
+    const errors = diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Error).length;
+    const warnings = diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Warning).length;
+
+    if (!validated) {
+        statusBarItem.text = "$(circle-outline) NaC";
+        statusBarItem.tooltip = "Vars file not validated yet. Click to run Validate & Lint.";
+        statusBarItem.backgroundColor = undefined;
+    } else if (errors > 0) {
+        statusBarItem.text = `$(error) NaC: ${errors}`;
+        statusBarItem.tooltip = `Validation failed: ${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"}. Click to run Validate & Lint.`;
+        statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+    } else {
+        statusBarItem.text = warnings > 0 ? `$(warning) NaC: ${warnings}` : "$(pass) NaC";
+        statusBarItem.tooltip = `Validation passed${warnings > 0 ? ` with ${warnings} warning${warnings === 1 ? "" : "s"}` : ""}${schemaChecked === false ? " (yamllint only, vars file is not bound to a workflow)" : ""}. Click to run Validate & Lint.`;
+        statusBarItem.backgroundColor = undefined;
+    }
+    statusBarItem.show();
+}
+
+export { registerAutoValidation };
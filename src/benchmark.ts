@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import fsPromises from 'fs/promises';
+import * as path from 'path';
+import { identifyWorkflow, identifyPlaybook } from './extension.js';
+import { testingPrompts, testingLabels } from './testingPrompts.js';
+
+// single labelled prompt used by the classification benchmark
+export interface BenchmarkCase {
+    prompt: string;
+    expectedWorkflow: string;
+    expectedPlaybook: string;
+}
+
+// outcome of classifying a single benchmark prompt
+export interface BenchmarkResult extends BenchmarkCase {
+    predictedWorkflow: string;
+    predictedPlaybook: string;
+}
+
+// precision / recall for a single workflow label
+export interface WorkflowMetrics {
+    precision: number;
+    recall: number;
+    f1: number;
+    support: number;
+}
+
+// full benchmark report written to disk as JSON & Markdown
+export interface BenchmarkReport {
+    model: string;
+    timestamp: string;
+    total: number;
+    workflowAccuracy: number;
+    playbookAccuracy: number;
+    confusionMatrix: { [expected: string]: { [predicted: string]: number } };
+    perWorkflow: { [workflow: string]: WorkflowMetrics };
+    results: BenchmarkResult[];
+}
+
+// identifies the workflow & playbook of a benchmark prompt with the given model
+export interface BenchmarkClassifier {
+    identifyWorkflow: (model: vscode.LanguageModelChat, token: vscode.CancellationToken, prompt: string) => Promise<string>;
+    identifyPlaybook: (model: vscode.LanguageModelChat, token: vscode.CancellationToken, prompt: string, workflow: string) => Promise<string>;
+}
+
+// classifies prompts the same way the chat handler does (RAG workflow identification, then playbook selection)
+const CHAT_CLASSIFIER: BenchmarkClassifier = {
+    identifyWorkflow: async (model, token, prompt) => (await identifyWorkflow(model, token, prompt)).workflow,
+    identifyPlaybook: (model, token, prompt, workflow) => identifyPlaybook(model, token, prompt, workflow),
+};
+
+/**
+ * Builds benchmark cases from testingPrompts & testingLabels.
+ * Expected workflow of each label is found by locating the labelled playbook in the cloned GitHub repo.
+ */
+async function loadBenchmarkCases(): Promise<BenchmarkCase[]> {
+    const uris = await vscode.workspace.findFiles(`**/ai-assistant-catalyst-center-ansible-iac/workflows/*/playbook/*`);
+
+    // map each playbook file name to the workflow directory it lives in (uri.path uses "/" separators on every platform, unlike fsPath)
+    const playbookToWorkflow: { [playbook: string]: string } = {};
+    for (const uri of uris) {
+        const parts = uri.path.split('/workflows/')[1]?.split('/');
+        if (parts && parts.length >= 3) {
+            playbookToWorkflow[parts[parts.length - 1]] = parts[0];
+        }
+    }
+
+    const cases: BenchmarkCase[] = [];
+    for (let i = 0; i < Math.min(testingPrompts.length, testingLabels.length); i++) {
+        cases.push({
+            prompt: testingPrompts[i],
+            expectedPlaybook: testingLabels[i],
+            expectedWorkflow: playbookToWorkflow[testingLabels[i]] || "unknown",
+        });
+    }
+    return cases;
+}
+
+/**
+ * Runs every benchmark case through the classifier (identifyWorkflow & identifyPlaybook by default) using the given model.
+ * Headless runs (e.g. the benchmark test suite in CI) pass fixed cases & a scripted model from createScriptedModel.
+ * Returns the benchmark report with confusion matrix & per-workflow metrics.
+ */
+async function runClassificationBenchmark(model: vscode.LanguageModelChat, token: vscode.CancellationToken, cases?: BenchmarkCase[], progress?: vscode.Progress<{ message?: string, increment?: number }>, classifier: BenchmarkClassifier = CHAT_CLASSIFIER): Promise<BenchmarkReport> {
+    const benchmarkCases = cases ?? await loadBenchmarkCases();
+    const results: BenchmarkResult[] = [];
+
+    for (const c of benchmarkCases) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+        progress?.report({ message: `${results.length + 1}/${benchmarkCases.length}`, increment: 100 / benchmarkCases.length });
+
+        // classify prompt the same way the chat handler does
+        const predictedWorkflow = await classifier.identifyWorkflow(model, token, c.prompt);
+        const predictedPlaybook = predictedWorkflow ? await classifier.identifyPlaybook(model, token, c.prompt, predictedWorkflow) : "";
+        results.push({ ...c, predictedWorkflow: predictedWorkflow || "unknown", predictedPlaybook });
+    }
+
+    return computeBenchmarkReport(results, model.name);
+}
+
+/**
+ * Computes accuracy, confusion matrix, and per-workflow precision / recall from classification results.
+ */
+function computeBenchmarkReport(results: BenchmarkResult[], modelName: string): BenchmarkReport {
+    const confusionMatrix: { [expected: string]: { [predicted: string]: number } } = {};
+    let correctWorkflows = 0;
+    let correctPlaybooks = 0;
+
+    for (const r of results) {
+        confusionMatrix[r.expectedWorkflow] ??= {};
+        confusionMatrix[r.expectedWorkflow][r.predictedWorkflow] = (confusionMatrix[r.expectedWorkflow][r.predictedWorkflow] || 0) + 1;
+        if (r.expectedWorkflow === r.predictedWorkflow) {
+            correctWorkflows += 1;
+        }
+        if (r.expectedPlaybook === r.predictedPlaybook) {
+            correctPlaybooks += 1;
+        }
+    }
+
+    // precision = TP / predicted as w, recall = TP / actually w
+    const labels = new Set<string>(results.flatMap(r => [r.expectedWorkflow, r.predictedWorkflow]));
+    const perWorkflow: { [workflow: string]: WorkflowMetrics } = {};
+    for (const w of labels) {
+        const truePositives = results.filter(r => r.expectedWorkflow === w && r.predictedWorkflow === w).length;
+        const predicted = results.filter(r => r.predictedWorkflow === w).length;
+        const support = results.filter(r => r.expectedWorkflow === w).length;
+        const precision = predicted ? truePositives / predicted : 0;
+        const recall = support ? truePositives / support : 0;
+        const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+        perWorkflow[w] = { precision, recall, f1, support };
+    }
+
+    return {
+        model: modelName,
+        timestamp: new Date().toISOString(),
+        total: results.length,
+        workflowAccuracy: results.length ? correctWorkflows / results.length : 0,
+        playbookAccuracy: results.length ? correctPlaybooks / results.length : 0,
+        confusionMatrix,
+        perWorkflow,
+        results,
+    };
+}
+
+/**
+ * Formats benchmark report as Markdown: summary, per-workflow metrics, misclassifications, and confusion matrix.
+ */
+function formatBenchmarkMarkdown(report: BenchmarkReport): string {
+    const pct = (n: number) => `${(n * 100).toFixed(2)}%`;
+    let md = `# Playbook Classification Benchmark\n\n`;
+    md += `- Model: ${report.model}\n- Run: ${report.timestamp}\n- Prompts: ${report.total}\n`;
+    md += `- Workflow accuracy: ${pct(report.workflowAccuracy)}\n- Playbook accuracy: ${pct(report.playbookAccuracy)}\n\n`;
+
+    md += `## Per-Workflow Metrics\n\n| Workflow | Precision | Recall | F1 | Support |\n|---|---|---|---|---|\n`;
+    for (const w of Object.keys(report.perWorkflow).sort()) {
+        const m = report.perWorkflow[w];
+        md += `| ${w} | ${pct(m.precision)} | ${pct(m.recall)} | ${pct(m.f1)} | ${m.support} |\n`;
+    }
+
+    const misses = report.results.filter(r => r.expectedPlaybook !== r.predictedPlaybook);
+    md += `\n## Misclassifications (${misses.length})\n\n| Prompt | Expected | Predicted |\n|---|---|---|\n`;
+    for (const r of misses) {
+        md += `| ${r.prompt.replace(/\|/g, '\\|')} | ${r.expectedPlaybook} | ${r.predictedPlaybook || "-"} |\n`;
+    }
+
+    // confusion matrix only lists workflows that appear in the results to keep the table readable
+    const labels = Object.keys(report.perWorkflow).sort();
+    md += `\n## Confusion Matrix (rows: expected, columns: predicted)\n\n| | ${labels.join(' | ')} |\n|${'---|'.repeat(labels.length + 1)}\n`;
+    for (const expected of labels) {
+        const row = labels.map(predicted => report.confusionMatrix[expected]?.[predicted] || 0);
+        md += `| **${expected}** | ${row.join(' | ')} |\n`;
+    }
+    return md;
+}
+
+/**
+ * Writes benchmark report as JSON & Markdown into the benchmark_results folder of the user's workspace.
+ * Returns path of the Markdown report.
+ */
+async function writeBenchmarkReport(report: BenchmarkReport): Promise<string> {
+    const resultsDir = `${vscode.workspace.rootPath}/benchmark_results`;
+    await fsPromises.mkdir(resultsDir, { recursive: true });
+
+    const baseName = `classification_${report.timestamp.replace(/[:.]/g, '-')}`;
+    await fsPromises.writeFile(path.join(resultsDir, `${baseName}.json`), JSON.stringify(report, null, 4), 'utf8');
+    const markdownPath = path.join(resultsDir, `${baseName}.md`);
+    await fsPromises.writeFile(markdownPath, formatBenchmarkMarkdown(report), 'utf8');
+    return markdownPath;
+}
+
+/**
+ * Creates a scripted stand-in for a Copilot LLM model that answers every request with the given responder.
+ * Used to run the benchmark headlessly (e.g. in CI) without a signed-in Copilot model.
+ */
+function createScriptedModel(responder: (prompt: string) => string, name: string = "scripted"): vscode.LanguageModelChat {
+    const promptText = (messages: vscode.LanguageModelChatMessage[]) => messages
+        .flatMap(m => m.content)
+        .map(part => part instanceof vscode.LanguageModelTextPart ? part.value : "")
+        .join('\n');
+
+    return {
+        name,
+        id: name,
+        vendor: "nac-copilot",
+        family: name,
+        version: "1",
+        maxInputTokens: Number.MAX_SAFE_INTEGER,
+        async sendRequest(messages: vscode.LanguageModelChatMessage[]) {
+            const answer = responder(promptText(messages));
+            async function* text() {
+                yield answer;
+            }
+            async function* stream() {
+                yield new vscode.LanguageModelTextPart(answer);
+            }
+            return { text: text(), stream: stream() };
+        },
+        async countTokens(text: string | vscode.LanguageModelChatMessage) {
+            return typeof text === 'string' ? text.length : promptText([text]).length;
+        },
+    };
+}
+
+/**
+ * Deterministic retrieval-only baseline: picks the top retrieved workflow and the playbook whose "delete" variant matches the prompt.
+ * Measures RAG retrieval quality alone, so regressions in the cloned repo or chunking show up without an LLM.
+ */
+function retrievalBaselineResponder(prompt: string): string {
+    // workflow identification prompt lists top-K chunks as "Workflow <name>:" in ranked order
+    const topWorkflow = prompt.match(/^\s*Workflow ([\w-]+):/m);
+    if (prompt.includes("The available playbooks are:")) {
+        const available = prompt.split("The available playbooks are:")[1].split("Here is the user prompt:");
+        const playbooks = available[0].split(',').map(p => p.trim().replace(/.*playbook\//, "")).filter(p => p);
+        const userPrompt = (available[1] || "").toLowerCase();
+        const wantsDelete = /delete|remove/.test(userPrompt);
+        return playbooks.find(p => p.includes('delete') === wantsDelete) || playbooks[0] || "";
+    }
+    return topWorkflow ? topWorkflow[1] : "";
+}
+
+export { loadBenchmarkCases, runClassificationBenchmark, computeBenchmarkReport, formatBenchmarkMarkdown, writeBenchmarkReport, createScriptedModel, retrievalBaselineResponder };
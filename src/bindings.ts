@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import * as path from 'path';
+import { TaskContext } from './session.js';
+
+// binding of a vars file as stored in the manifest (schemaFile is relative to the workspace root so the manifest can be committed)
+interface StoredBinding {
+    workflow: string;
+    playbook: string;
+    schemaFile: string;
+}
+
+// workspace manifest binding vars files (keyed by workspace-relative path) to their workflow, playbook & schema
+interface BindingsManifest {
+    version: number;
+    bindings: { [varsFile: string]: StoredBinding };
+}
+
+// global state variables shared across binding functions
+let manifest: BindingsManifest = { version: 1, bindings: {} };
+
+/**
+ * Returns path of the bindings manifest in user's workspace.
+ */
+function getManifestPath(): string {
+    return `${vscode.workspace.rootPath}/.nac/bindings.json`;
+}
+
+/**
+ * Loads bindings manifest from user's workspace (e.g. on activation or after it was edited by hand).
+ */
+async function loadBindings() {
+    const manifestPath = getManifestPath();
+    if (!fs.existsSync(manifestPath)) {
+        manifest = { version: 1, bindings: {} };
+        return;
+    }
+
+    try {
+        const loaded: BindingsManifest = JSON.parse(await fsPromises.readFile(manifestPath, 'utf8'));
+        manifest = { version: 1, bindings: loaded.bindings || {} };
+    } catch (error) {
+        console.error("Error reading vars file bindings manifest: ", error);
+        vscode.window.showErrorMessage(`Failed to read ${vscode.workspace.asRelativePath(manifestPath)}. Please check that it is valid JSON.`);
+    }
+}
+
+/**
+ * Writes bindings manifest to user's workspace.
+ */
+async function saveBindings() {
+    const manifestPath = getManifestPath();
+    try {
+        await fsPromises.mkdir(path.dirname(manifestPath), { recursive: true });
+        await fsPromises.writeFile(manifestPath, JSON.stringify(manifest, null, 4) + '\n', 'utf8');
+    } catch (error) {
+        console.error("Error writing vars file bindings manifest: ", error);
+    }
+}
+
+/**
+ * Returns the task a vars file is bound to in the manifest, if any.
+ */
+function getBinding(uri: vscode.Uri): TaskContext | undefined {
+    const stored = manifest.bindings[vscode.workspace.asRelativePath(uri, false)];
+    if (!stored) {
+        return undefined;
+    }
+    return {
+        workflow: stored.workflow,
+        playbook: stored.playbook,
+        schemaFile: stored.schemaFile ? path.resolve(vscode.workspace.rootPath || "", stored.schemaFile) : "",
+    };
+}
+
+/**
+ * Binds a vars file to a task in the manifest and persists it.
+ */
+async function setBinding(uri: vscode.Uri, task: TaskContext) {
+    manifest.bindings[vscode.workspace.asRelativePath(uri, false)] = {
+        workflow: task.workflow,
+        playbook: task.playbook,
+        schemaFile: task.schemaFile ? vscode.workspace.asRelativePath(task.schemaFile, false) : "",
+    };
+    await saveBindings();
+}
+
+/**
+ * Returns absolute path of a bound playbook in the cloned GitHub repo.
+ */
+function getPlaybookPath(task: TaskContext): string {
+    return `${vscode.workspace.rootPath}/ai-assistant-catalyst-center-ansible-iac/workflows/${task.workflow}/playbook/${task.playbook}`;
+}
+
+/**
+ * Checks whether a file is a vars file that can be bound: a YAML file under the data/ or data_deletion/ folders.
+ */
+function isVarsFile(uri: vscode.Uri): boolean {
+    const relativePath = vscode.workspace.asRelativePath(uri, false);
+    return /^(data|data_deletion)\/.+\.ya?ml$/.test(relativePath);
+}
+
+export { loadBindings, getBinding, setBinding, getPlaybookPath, isVarsFile };
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import { readValidationSchema } from './extension.js';
+import { getDocumentTask } from './session.js';
+import { detectVarsFileTask } from './schemaDetection.js';
+import { loadYamaleSchema, validateYamale, YamaleError } from './yamaleValidator.js';
+
+// diagnostic sources (see diagnostics.ts) that code actions are offered for
+const FIXABLE_SOURCES = ['Yamale', 'yamllint', 'ansible-lint'];
+
+/**
+ * Registers quick fixes for Yamale, yamllint & ansible-lint diagnostics in YAML files, and the "Ask AI to fix" command they use.
+ */
+function registerCodeActions(context: vscode.ExtensionContext) {
+    context.subscriptions.push(vscode.languages.registerCodeActionsProvider(
+        [{ language: 'yaml' }, { language: 'ansible' }],
+        { provideCodeActions },
+        { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    ));
+    context.subscriptions.push(vscode.commands.registerCommand('ask-ai-to-fix', askAIToFix));
+}
+
+/**
+ * Provides quick fixes for the validation diagnostics at the given range:
+ * inserts missing required fields with schema-correct placeholders, replaces invalid enum values, fixes whitespace / document markers,
+ * and offers to ask the AI for a fix of all diagnostics at the range.
+ */
+async function provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): Promise<vscode.CodeAction[]> {
+    const diagnostics = context.diagnostics.filter(d => FIXABLE_SOURCES.includes(d.source || ""));
+    if (diagnostics.length === 0) {
+        return [];
+    }
+
+    const actions: vscode.CodeAction[] = [];
+    let yamaleErrors: YamaleError[] | undefined;
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.source === 'Yamale') {
+            yamaleErrors ??= await validateDocument(document);
+            actions.push(...yamaleFixes(document, diagnostic, yamaleErrors));
+        } else {
+            const fix = lintFix(document, diagnostic);
+            if (fix) {
+                actions.push(fix);
+            }
+        }
+    }
+
+    const askAI = new vscode.CodeAction("Ask AI to fix", vscode.CodeActionKind.QuickFix);
+    askAI.diagnostics = diagnostics;
+    askAI.command = { command: 'ask-ai-to-fix', title: "Ask AI to fix", arguments: [document.uri, diagnostics] };
+    actions.push(askAI);
+    return actions;
+}
+
+/**
+ * Re-validates a document against the schema of its bound (or unambiguously detected) task, to recover the fixes of its Yamale errors.
+ * Returns an empty list if no schema is known for the document or the schema can't be read.
+ */
+async function validateDocument(document: vscode.TextDocument): Promise<YamaleError[]> {
+    const task = getDocumentTask(document.uri) || await detectVarsFileTask(document.getText(), vscode.workspace.asRelativePath(document.uri, false));
+    if (!task?.schemaFile) {
+        return [];
+    }
+    try {
+        return validateYamale(await loadYamaleSchema(task.schemaFile), document.getText());
+    } catch (error) {
+        console.error("Error validating vars file for quick fixes: ", error);
+        return [];
+    }
+}
+
+/**
+ * Builds quick fixes for a Yamale diagnostic from the fix of its matching validation error (same position & message).
+ */
+function yamaleFixes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, errors: YamaleError[]): vscode.CodeAction[] {
+    const error = errors.find(e =>
+        e.start.line === diagnostic.range.start.line &&
+        e.start.character === diagnostic.range.start.character &&
+        (e.path ? `${e.path}: ${e.message}` : e.message) === diagnostic.message
+    );
+    if (!error?.fix) {
+        return [];
+    }
+
+    const actions: vscode.CodeAction[] = [];
+    const key = error.path.split('.').pop();
+    if (error.fix.insert) {
+        const action = new vscode.CodeAction(`Add missing field '${key}'`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.insert(document.uri, new vscode.Position(error.fix.insert.position.line, error.fix.insert.position.character), error.fix.insert.text);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        actions.push(action);
+    }
+    for (const replacement of error.fix.replacements || []) {
+        const action = new vscode.CodeAction(`Change '${key}' to ${replacement}`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, diagnostic.range, replacement);
+        action.diagnostics = [diagnostic];
+        actions.push(action);
+    }
+    return actions;
+}
+
+/**
+ * Builds a quick fix for yamllint rules (also reported by ansible-lint as yaml[rule]) that have a mechanical fix:
+ * trailing-spaces, document-start & new-line-at-end-of-file.
+ */
+function lintFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+    const code = typeof diagnostic.code === 'object' ? String(diagnostic.code.value) : String(diagnostic.code ?? "");
+    const rule = code.replace(/^yaml\[(.*)\]$/, '$1');
+    const edit = new vscode.WorkspaceEdit();
+    let title = "";
+
+    if (rule === 'trailing-spaces') {
+        const line = document.lineAt(diagnostic.range.start.line);
+        edit.delete(document.uri, new vscode.Range(line.lineNumber, line.text.trimEnd().length, line.lineNumber, line.text.length));
+        title = "Remove trailing spaces";
+    } else if (rule === 'document-start') {
+        edit.insert(document.uri, new vscode.Position(0, 0), "---\n");
+        title = "Add document start \"---\"";
+    } else if (rule === 'new-line-at-end-of-file') {
+        edit.insert(document.uri, document.lineAt(document.lineCount - 1).range.end, "\n");
+        title = "Add new line at end of file";
+    } else {
+        return undefined;
+    }
+
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.edit = edit;
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    return action;
+}
+
+/**
+ * Asks the Copilot LLM model to fix the given diagnostics of a vars file & shows the fixed file as a refactor preview
+ * (WorkspaceEdit that needs confirmation) instead of free-text suggestions.
+ */
+async function askAIToFix(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]) {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const task = getDocumentTask(uri);
+    const validationSchema = task ? await readValidationSchema(task.schemaFile) : "";
+
+    const findings = diagnostics.map(d => `line ${d.range.start.line + 1}: [${d.source}${d.code ? ` ${typeof d.code === 'object' ? d.code.value : d.code}` : ""}] ${d.message}`).join('\n');
+    const FIX_PROMPT = `You are a code assistant who fixes YAML vars files for Catalyst Center Ansible playbooks.
+    Fix ONLY the validation findings listed below. Do not change anything else, and keep comments, key order and indentation style.
+    Respond with the COMPLETE fixed file in a single \`\`\`yaml code block and nothing else.
+    ${task ? `The vars file is used with workflow: ${task.workflow}, playbook: ${task.playbook}.` : ""}
+    ${validationSchema ? `Here is the Yamale validation schema: \n ${validationSchema} \n` : ""}
+    Here are the validation findings: \n${findings}\n
+    Here is the vars file: \n\`\`\`yaml\n${document.getText()}\n\`\`\`\n`;
+
+    try {
+        const fixedText = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Generating AI fix...",
+            cancellable: true
+        }, async (progress, token) => {
+            const models = await vscode.lm.selectChatModels({});
+            const model = models.length > 0 ? models[0] : undefined;
+            if (!model) {
+                vscode.window.showErrorMessage('No chat model available. Please check your settings.');
+                return undefined;
+            }
+
+            const chatResponse = await model.sendRequest([vscode.LanguageModelChatMessage.User(FIX_PROMPT)], {}, token);
+            let accumulatedChatResponse = '';
+            for await (const fragment of chatResponse.text) {
+                accumulatedChatResponse += fragment;
+            }
+            // take the fixed file from the YAML code block if the model added one
+            const codeBlock = accumulatedChatResponse.match(/```(?:ya?ml)?\n([\s\S]*?)```/);
+            return codeBlock ? codeBlock[1] : accumulatedChatResponse;
+        });
+
+        if (!fixedText || fixedText.trim() === document.getText().trim()) {
+            if (fixedText) {
+                vscode.window.showInformationMessage("The AI did not suggest any changes.");
+            }
+            return;
+        }
+
+        // replace the whole file, asking the user to review the change in the refactor preview first
+        const edit = new vscode.WorkspaceEdit();
+        const fullRange = new vscode.Range(0, 0, document.lineCount - 1, document.lineAt(document.lineCount - 1).text.length);
+        edit.replace(uri, fullRange, fixedText, {
+            label: "AI fix",
+            description: `${diagnostics.length} finding${diagnostics.length === 1 ? "" : "s"}`,
+            needsConfirmation: true
+        });
+        await vscode.workspace.applyEdit(edit);
+    } catch (error) {
+        console.error("Error generating AI fix using Copilot LLM model: ", error);
+        vscode.window.showErrorMessage('Failed to get a fix from the model. Please try again.');
+    }
+}
+
+export { registerCodeActions };
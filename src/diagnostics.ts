@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { Finding, FindingTool, FindingSeverity } from './findings.js';
+
+// validation tools that publish their findings to the Problems panel, each in its own diagnostic collection
+export type DiagnosticTool = FindingTool;
+
+// diagnostic source shown in the Problems panel per tool
+const DIAGNOSTIC_SOURCES: { [tool in DiagnosticTool]: string } = {
+    'yamale': 'Yamale',
+    'yamllint': 'yamllint',
+    'ansible-lint': 'ansible-lint',
+};
+
+// diagnostic severity per finding severity
+const DIAGNOSTIC_SEVERITIES: { [severity in FindingSeverity]: vscode.DiagnosticSeverity } = {
+    'error': vscode.DiagnosticSeverity.Error,
+    'warning': vscode.DiagnosticSeverity.Warning,
+    'info': vscode.DiagnosticSeverity.Information,
+};
+
+// global state variables shared across diagnostics functions
+const collections = new Map<DiagnosticTool, vscode.DiagnosticCollection>();
+
+/**
+ * Creates a diagnostic collection per validation tool & keeps diagnostics in sync with edits to their documents:
+ * diagnostics on edited lines are dropped, diagnostics below an edit move with their lines, and closed documents are cleared.
+ */
+function registerDiagnostics(context: vscode.ExtensionContext) {
+    for (const tool of Object.keys(DIAGNOSTIC_SOURCES) as DiagnosticTool[]) {
+        const collection = vscode.languages.createDiagnosticCollection(tool);
+        collections.set(tool, collection);
+        context.subscriptions.push(collection);
+    }
+
+    context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(shiftDiagnostics));
+    context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => clearDiagnostics(document.uri)));
+}
+
+/**
+ * Replaces diagnostics of a tool for a document (an empty list clears them).
+ */
+function setDiagnostics(tool: DiagnosticTool, uri: vscode.Uri, diagnostics: vscode.Diagnostic[]) {
+    for (const d of diagnostics) {
+        d.source = DIAGNOSTIC_SOURCES[tool];
+    }
+    collections.get(tool)?.set(uri, diagnostics);
+}
+
+/**
+ * Returns diagnostics of a tool for a document.
+ */
+function getDiagnostics(tool: DiagnosticTool, uri: vscode.Uri): readonly vscode.Diagnostic[] {
+    return collections.get(tool)?.get(uri) || [];
+}
+
+/**
+ * Checks whether a tool has published diagnostics for a document, even an empty list (i.e. the document was validated by it).
+ */
+function hasDiagnostics(tool: DiagnosticTool, uri: vscode.Uri): boolean {
+    return collections.get(tool)?.has(uri) || false;
+}
+
+/**
+ * Clears diagnostics of every tool for a document.
+ */
+function clearDiagnostics(uri: vscode.Uri) {
+    for (const collection of collections.values()) {
+        collection.delete(uri);
+    }
+}
+
+/**
+ * Converts findings into diagnostics for the given document: at their exact source range if known (Yamale), else on their line (linters).
+ * AI suggestions (one per finding, in the same order) are attached as related information.
+ */
+function findingDiagnostics(findings: Finding[], document: vscode.TextDocument, suggestions: string[] = []): vscode.Diagnostic[] {
+    return findings.map((f, i) => {
+        const range = f.endLine !== undefined && f.endColumn !== undefined
+            ? new vscode.Range(f.line - 1, f.column - 1, f.endLine - 1, f.endColumn - 1)
+            : lintRange(document, f.line, f.column);
+        const diagnostic = new vscode.Diagnostic(range, f.message, DIAGNOSTIC_SEVERITIES[f.severity]);
+        // Yamale rules are derived from the error message, so only linter rules are shown as codes
+        if (f.tool !== 'yamale' && f.rule) {
+            diagnostic.code = f.rule;
+        }
+        if (suggestions[i]) {
+            diagnostic.relatedInformation = [new vscode.DiagnosticRelatedInformation(new vscode.Location(document.uri, range), `AI suggestion: ${suggestions[i]}`)];
+        }
+        return diagnostic;
+    });
+}
+
+/**
+ * Returns range of a 1-based line reported by a linter: from the given 1-based column (or first non-whitespace character) to the end of the line.
+ * Returns a zero-length range at the start of the document if the line is out of range.
+ */
+function lintRange(document: vscode.TextDocument, line: number, column?: number): vscode.Range {
+    if (line < 1 || line > document.lineCount) {
+        return new vscode.Range(0, 0, 0, 0);
+    }
+    const textLine = document.lineAt(line - 1);
+    const start = column ? Math.min(column - 1, textLine.text.length) : textLine.firstNonWhitespaceCharacterIndex;
+    const end = Math.max(start + 1, textLine.range.end.character);
+    return new vscode.Range(line - 1, start, line - 1, end);
+}
+
+/**
+ * Moves diagnostics of an edited document along with the text: diagnostics touching an edited line are dropped (they may be fixed),
+ * diagnostics after the edit are shifted by the number of lines added or removed.
+ */
+function shiftDiagnostics(event: vscode.TextDocumentChangeEvent) {
+    if (event.contentChanges.length === 0) {
+        return;
+    }
+
+    for (const collection of collections.values()) {
+        let diagnostics = collection.get(event.document.uri);
+        if (!diagnostics || diagnostics.length === 0) {
+            continue;
+        }
+
+        for (const change of event.contentChanges) {
+            const lineDelta = change.text.split('\n').length - 1 - (change.range.end.line - change.range.start.line);
+            diagnostics = diagnostics.flatMap(d => {
+                if (d.range.end.line < change.range.start.line) {
+                    return [d];
+                }
+                if (d.range.start.line > change.range.end.line) {
+                    if (lineDelta !== 0) {
+                        d.range = new vscode.Range(d.range.start.translate(lineDelta), d.range.end.translate(lineDelta));
+                    }
+                    return [d];
+                }
+                return [];
+            });
+        }
+        collection.set(event.document.uri, diagnostics);
+    }
+}
+
+export { registerDiagnostics, setDiagnostics, getDiagnostics, hasDiagnostics, clearDiagnostics, findingDiagnostics, lintRange };
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { pipeline, env, FeatureExtractionPipeline } from '@xenova/transformers';
+
+// embedding model used for RAG indexing & queries
+export const EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+// number of documents embedded per pipeline call & number of query embeddings kept in memory
+const DOCUMENT_BATCH_SIZE = 32;
+const QUERY_CACHE_SIZE = 256;
+
+// transformers.js defaults, restored when the model path setting is cleared
+const DEFAULT_LOCAL_MODEL_PATH = env.localModelPath;
+const DEFAULT_ALLOW_LOCAL_MODELS = env.allowLocalModels;
+
+// global state variables shared across embedding functions
+// feature-extraction pipeline is loaded once and reused until the model path setting changes
+let embedderPromise: Promise<FeatureExtractionPipeline> | null = null;
+const queryCache = new Map<string, number[]>();
+
+/**
+ * Loads the feature-extraction pipeline once and returns the shared instance.
+ * If nac-copilot.embeddingModelPath is set, the model is loaded from that directory only (no download), for air-gapped setups.
+ */
+async function getEmbedder(): Promise<FeatureExtractionPipeline> {
+    if (!embedderPromise) {
+        // transformers.js appends the model id to localModelPath, so a path that already ends with it is trimmed to its parent directory
+        let localModelPath = (vscode.workspace.getConfiguration('nac-copilot').get<string>('embeddingModelPath') || "").replace(/[\\/]+$/, "");
+        if (localModelPath.replace(/\\/g, '/').endsWith(`/${EMBEDDING_MODEL}`)) {
+            localModelPath = localModelPath.slice(0, -EMBEDDING_MODEL.length - 1);
+        }
+        if (localModelPath) {
+            console.log(`Loading embedding model from local path: ${localModelPath}`);
+            env.localModelPath = localModelPath;
+            env.allowLocalModels = true;
+            env.allowRemoteModels = false;
+        } else {
+            env.localModelPath = DEFAULT_LOCAL_MODEL_PATH;
+            env.allowLocalModels = DEFAULT_ALLOW_LOCAL_MODELS;
+            env.allowRemoteModels = true;
+        }
+
+        embedderPromise = pipeline('feature-extraction', EMBEDDING_MODEL, { local_files_only: !!localModelPath });
+        // allow a later call to retry if loading the model failed
+        embedderPromise.catch((error) => {
+            console.error("Error loading embedding model: ", error);
+            embedderPromise = null;
+        });
+    }
+    return embedderPromise;
+}
+
+/**
+ * Drops the loaded pipeline & cached query embeddings so the next call reloads the model (e.g. after the model path setting changes).
+ */
+function resetEmbeddings() {
+    embedderPromise = null;
+    queryCache.clear();
+}
+
+/**
+ * Shared embedding service used by the vector DB and RAG queries.
+ * Documents are embedded in batches and query embeddings are kept in a bounded LRU cache.
+ */
+const embeddings = {
+    // function for embedding READMEs / documents
+    async embedDocuments(texts: string[]): Promise<number[][]> {
+        const embedder = await getEmbedder();
+        const results: number[][] = [];
+        for (let i = 0; i < texts.length; i += DOCUMENT_BATCH_SIZE) {
+            const output = await embedder(texts.slice(i, i + DOCUMENT_BATCH_SIZE), {pooling: 'mean', normalize: true});
+            results.push(...(output.tolist() as number[][]));
+        }
+        return results;
+    },
+
+    // function for embedding a query (cached, since chat turns often repeat the same prompt)
+    async embedQuery(text: string): Promise<number[]> {
+        const cached = queryCache.get(text);
+        if (cached) {
+            // re-insert to mark as most recently used
+            queryCache.delete(text);
+            queryCache.set(text, cached);
+            return cached;
+        }
+
+        const embedder = await getEmbedder();
+        const output = await embedder(text, {pooling: 'mean', normalize: true});
+        const embedding: number[] = Array.from(output.data);
+
+        // evict least recently used query once cache is full
+        if (queryCache.size >= QUERY_CACHE_SIZE) {
+            const oldest = queryCache.keys().next().value;
+            if (oldest !== undefined) {
+                queryCache.delete(oldest);
+            }
+        }
+        queryCache.set(text, embedding);
+        return embedding;
+    }
+};
+
+export { embeddings, resetEmbeddings };
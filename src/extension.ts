@@ -5,23 +5,68 @@ import * as path from 'path';
 import fsPromises from 'fs/promises';
 import { exec } from 'child_process';
 import { yamale, ansibleYAMLLint } from './annotations.js';
-import { workflows, indexDataRAG, retrieveAndGenerateRAGWorkflow, retrieveAndGenerateRAGGeneral, fetchREADMEFiles } from './rag.js';
+import { formatFindings } from './findings.js';
+import { workflows, WorkflowCandidate, indexDataRAG, retrieveAndGenerateRAGWorkflow, retrieveAndGenerateRAGGeneral, fetchWorkflowFiles } from './rag.js';
+import { resetEmbeddings } from './embeddings.js';
+import { TaskContext, SessionState, sessionFromHistory, setLastSession, getLastSession, bindDocumentTask, getDocumentTask, resolveDocumentTask, pickSessionTask, matchingSessionTasks } from './session.js';
+import { loadBindings, getPlaybookPath, isVarsFile } from './bindings.js';
+import { registerDiagnostics } from './diagnostics.js';
+import { registerCodeActions } from './codeActions.js';
+import { registerAutoValidation } from './autoValidation.js';
+import { registerSchemaAssist } from './schemaAssist.js';
+import { registerValidationTree } from './validationTree.js';
+import { runPlaybook } from './playbookRunner.js';
+import { registerRunOptions, pickRunOptions, runOptionArgs, describeRunOptions } from './runOptions.js';
+import { registerPlaybookResults, showPlaybookSummary, summarizeJobEvents, readTaskLogLines } from './playbookResults.js';
+import { registerUsecaseMaps, generatedSteps } from './usecaseMaps.js';
+import { loadDependencyGraph, orderTasks, findUnresolvedReferences } from './taskOrdering.js';
+import { registerReferenceAnalyzer } from './referenceAnalyzer.js';
+import { registerVarsFileActions, offerVarsFileButtons } from './varsFileActions.js';
+import { registerReports, findVarsFiles, exportValidationReports, ReportFormat } from './reports.js';
+import { runClassificationBenchmark, writeBenchmarkReport, createScriptedModel, retrievalBaselineResponder } from './benchmark.js';
 import { fileURLToPath } from 'url';
 
 // global state variables shared across extension functions
-// exported variables are used across files for annotations, RAG logic, and sequential tasks/playbooks
-export let workflow = "";
-export let validation_schema = "";
-export let validation_schema_file = "";
-export let playbook = "";
-export let sequentialTasks = false;
-export let sequentialPlaybooks: string[] = [];
+// workflow / playbook / schema state lives per chat conversation & per vars file (see session.ts)
 let initializationPromiseRAG: Promise<void> | null = null;
 let lastGitHubCloneCheck = new Date(0);
 
+// path of persisted RAG index (extension global storage), set on activation
+let ragIndexCachePath = "";
+
+// saved vars files already asked which playbook they are for, per chat session (so dismissing the question isn't repeated on every save)
+const askedBindingFiles = new WeakMap<SessionState, Set<string>>();
+
+// minimum confidence for an identified workflow to be used without offering the other candidates
+const WORKFLOW_CONFIDENCE_THRESHOLD = 0.5;
+
+// number of workflow candidates offered to the user as follow-ups
+const MAX_WORKFLOW_FOLLOWUPS = 3;
+
+// result of identifying the workflow for a prompt (workflow is empty if no valid candidate was found)
+export interface WorkflowIdentification {
+	workflow: string;
+	confidence: number;
+	candidates: WorkflowCandidate[];
+}
+
+// chat result metadata used to offer workflow candidates as follow-ups
+interface WorkflowCandidatesMetadata {
+	workflowCandidates: WorkflowCandidate[];
+	candidatePrompt: string;
+	candidateTask: string;
+}
+
 // initialized variable for user's virtual environment path 
 let env = { ...process.env };
 
+/**
+ * Returns environment variables for running Ansible commands (PATH & VIRTUAL_ENV point to the venv once envSetup has run).
+ */
+export function getAnsibleEnv(): NodeJS.ProcessEnv {
+	return env;
+}
+
 /**
  * Activates the extension: starts env setup (creates venv, installs dependencies, automates generation of settings.json), registers chat participant & commands, and starts RAG initialization.
  * Executed only after the extension is activated.
@@ -31,6 +76,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
 	// register chat participant 
 	const participant = vscode.chat.createChatParticipant('chat-tutorial.code-assistant', handler);
+	participant.followupProvider = { provideFollowups: provideWorkflowFollowups };
 	context.subscriptions.push(participant);
 
 	// register command to check Yamale, YAMLlint, and Ansible Lint syntax
@@ -46,7 +92,9 @@ export async function activate(context: vscode.ExtensionContext) {
 				title: "Validating code. Please wait...",
 				cancellable: false
 			}, async () => {
-				const yamaleOutput = await yamale(true, "", textEditor);
+				// resolve workflow, playbook & schema for this vars file (its own binding, else a matching task of the last chat session or its detected schema)
+				const task = await resolveDocumentTask(textEditor.document.uri);
+				const yamaleOutput = await yamale(task, true, "", textEditor);
 				await ansibleYAMLLint(true, "", textEditor);
 				if (yamaleOutput[0] === "true") {
 					// display success message to user 
@@ -64,19 +112,117 @@ export async function activate(context: vscode.ExtensionContext) {
 			// wait for envSetup to complete before running playbook
 			await checkSetupAutomation();
 
-			// send message to user that Ansible playbook is being run
+			// send message to user that Ansible playbook is being run (cancelling stops the playbook)
 			vscode.window.withProgress({
 				location: vscode.ProgressLocation.Notification,
-				title: "Running Ansible playbook. Please wait...",
-				cancellable: false
-			}, async () => {
-				await runAnsiblePlaybook(textEditor);
+				title: "Running Ansible playbook",
+				cancellable: true
+			}, async (progress, token) => {
+				await runAnsiblePlaybook(textEditor, progress, token);
 			});
 		}
 	);
 	context.subscriptions.push(runPlaybook);
 
+	// register command to bind open vars file to a workflow, playbook & schema
+	const bindVarsFileCommand = vscode.commands.registerTextEditorCommand(
+		'bind-vars-file',
+		async (textEditor: vscode.TextEditor) => {
+			await bindVarsFile(textEditor);
+		}
+	);
+	context.subscriptions.push(bindVarsFileCommand);
+
+	// publish Yamale, yamllint & ansible-lint findings to the Problems panel
+	registerDiagnostics(context);
+
+	// offer quick fixes & "Ask AI to fix" for those findings
+	registerCodeActions(context);
+
+	// validate vars files on save / as-you-type if enabled in settings, and show pass / fail in the status bar
+	registerAutoValidation(context);
+
+	// suggest keys & values from the bound workflow's validation schema, and describe them on hover
+	registerSchemaAssist(context);
+
+	// export validation results of vars files as SARIF / JUnit XML reports
+	registerReports(context);
+
+	// validate every vars file in the workspace into the validation results tree view
+	registerValidationTree(context);
+
+	// show task & host results of the last playbook run
+	registerPlaybookResults(context);
+
+	// remember Run Playbook options (check mode, tags, host limit, verbosity) per vars file
+	registerRunOptions(context);
+
+	// run usecase maps (day0 / day1 / dayN) as ordered playbook pipelines, showing the status of each step
+	registerUsecaseMaps(context);
+
+	// flag references to sites, tags, device IPs & credentials that no vars file in data/ declares, and go to their declarations
+	registerReferenceAnalyzer(context);
+
+	// create or update vars files from generated YAML in chat responses
+	registerVarsFileActions(context);
+
+	// load vars file bindings & reload them when the manifest is edited by hand
+	await loadBindings();
+	const bindingsWatcher = vscode.workspace.createFileSystemWatcher('**/.nac/bindings.json');
+	bindingsWatcher.onDidChange(() => loadBindings());
+	bindingsWatcher.onDidCreate(() => loadBindings());
+	bindingsWatcher.onDidDelete(() => loadBindings());
+	context.subscriptions.push(bindingsWatcher);
+
+	// bind newly saved vars files to the workflow identified in the last chat response
+	context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(bindSavedVarsFile));
+
+	// register command to benchmark playbook classification against testingPrompts & testingLabels
+	const classificationBenchmark = vscode.commands.registerCommand(
+		'run-classification-benchmark',
+		async () => {
+			// wait for RAG initialization so every prompt is classified against the indexed workflows
+			if (initializationPromiseRAG) {
+				await initializationPromiseRAG;
+			}
+
+			// let user choose between the scripted retrieval baseline and any available Copilot LLM model
+			const models = await vscode.lm.selectChatModels({});
+			const modelOptions = [
+				{ label: "Scripted retrieval baseline", description: "No LLM, top retrieved workflow", model: createScriptedModel(retrievalBaselineResponder, "retrieval-baseline") },
+				...models.map(m => ({ label: m.name, description: `${m.vendor} ${m.family}`, model: m })),
+			];
+			const selectedModel = await vscode.window.showQuickPick(modelOptions, {
+				placeHolder: "Select a model to benchmark playbook classification with"
+			});
+			if (!selectedModel) {
+				return;
+			}
+
+			// send message to user that benchmark is in progress
+			await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: "Running classification benchmark...",
+				cancellable: true
+			}, async (progress, token) => {
+				const report = await runClassificationBenchmark(selectedModel.model, token, undefined, progress);
+				const reportPath = await writeBenchmarkReport(report);
+				vscode.window.showInformationMessage(`Workflow accuracy: ${(report.workflowAccuracy * 100).toFixed(2)}%, playbook accuracy: ${(report.playbookAccuracy * 100).toFixed(2)}%`);
+				await vscode.window.showTextDocument(vscode.Uri.file(reportPath));
+			});
+		}
+	);
+	context.subscriptions.push(classificationBenchmark);
+
+	// reload embedding model if user points the extension at a different local model directory
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((event) => {
+		if (event.affectsConfiguration('nac-copilot.embeddingModelPath')) {
+			resetEmbeddings();
+		}
+	}));
+
 	// initialize RAG approach in the background
+	ragIndexCachePath = path.join(context.globalStorageUri.fsPath, 'rag_index.json');
 	initializationPromiseRAG = initializeRAG();
 }
 
@@ -89,7 +235,6 @@ async function checkSetupAutomation() {
 	const requiredDependencies = [
         'ansible',
         'ansible-runner',
-        'yamale',
         'ansible-lint',
         'yamllint'
     ]
@@ -164,7 +309,7 @@ async function envSetup() {
 
 	// install dependencies using pip
 	await new Promise<void>((resolve, reject) => {
-		exec(`pip install ansible ansible-runner dnacentersdk yamale ansible-lint yamllint jinja2`, { env }, (error, stdout, stderr) => {
+		exec(`pip install ansible ansible-runner dnacentersdk ansible-lint yamllint jinja2`, { env }, (error, stdout, stderr) => {
 			if (error) {
 				console.error(`Error installing dependencies: ${error.message}`);
 				vscode.window.showErrorMessage(`Failed to install dependencies. Please ensure Python 3 is installed and try installing them manually.`);
@@ -201,10 +346,9 @@ async function envSetup() {
 	// automate generation of settings.json file 
 	const settingsFilePath = `${vscode.workspace.rootPath}/.vscode/settings.json`;
 
-	// settings.json file content - retrieve the path to the ansible-lint, yamale, yamllint, git, ansible-playbook, and venv executables
+	// settings.json file content - retrieve the path to the ansible-lint, yamllint, git, ansible-playbook, and venv executables
 	const settingsContent = {
 		"nac-copilot.ansibleLintPath": await getDependencyPath('ansible-lint'),
-		"nac-copilot.yamalePath": await getDependencyPath('yamale'),
 		"nac-copilot.yamlLintPath": await getDependencyPath('yamllint'),
 		"nac-copilot.gitPath": await getDependencyPath('git'),
 		"nac-copilot.ansiblePlaybookPath": await getDependencyPath('ansible-playbook'),
@@ -306,7 +450,7 @@ catalyst_center_hosts:
 }
 
 /**
- * Initializes RAG approach: clones GitHub repo (as needed), fetches README files, & generates RAG embeddings for vector DB.
+ * Initializes RAG approach: clones GitHub repo (as needed), fetches workflow files, & generates RAG embeddings for vector DB.
  */
 async function initializeRAG() {
 	console.log("RAG initialization started...");
@@ -314,50 +458,65 @@ async function initializeRAG() {
 	// clone GitHub repo if any files are missing
 	await cloneGitHubRepo();
 	
-	// fetch README files from cloned GitHub repo
-	await fetchREADMEFiles();
+	// fetch README, schema, playbook & vars files from cloned GitHub repo
+	await fetchWorkflowFiles();
 
-	// chunk, embed & store README files in vector DB
-	await indexDataRAG();
+	// chunk, embed & store workflow files in vector DB (reusing persisted embeddings where possible)
+	await indexDataRAG(ragIndexCachePath, await getClonedRepoCommitHash());
 }
 
 /**
  * Runs Ansible playbook on vars file open in text editor: retrieves hosts.yml, playbook, and vars file paths to run ansible-playbook command.
+ * Output is streamed while the playbook runs; cancelling the progress token stops the ansible process tree.
  */
-async function runAnsiblePlaybook(textEditor: vscode.TextEditor) {
+async function runAnsiblePlaybook(textEditor: vscode.TextEditor, progress?: vscode.Progress<{ message?: string }>, token?: vscode.CancellationToken) {
 	// get ansible-playbook path from settings.json configuration
 	const ansiblePlaybookPath = vscode.workspace.getConfiguration('nac-copilot').get<string>('ansiblePlaybookPath');
 
+	// if open vars file is bound to a workflow, use its playbook & the default hosts file without asking
+	const binding = getDocumentTask(textEditor.document.uri);
+	const boundPlaybookPath = binding ? getPlaybookPath(binding) : "";
+	const useBinding = !!binding && fs.existsSync(boundPlaybookPath);
+	const defaultHostsPath = `${vscode.workspace.rootPath}/ansible_inventory/catalystcenter_inventory/hosts.yaml`;
+
 	// ask user to enter hosts, playbook, and vars file paths 
-	const hostsFilePath = await pickFile('Select your hosts file');
+	const hostsFilePath = useBinding && fs.existsSync(defaultHostsPath) ? defaultHostsPath : await pickFile('Select your hosts file');
 	console.log(`Hosts file path selected: ${hostsFilePath}`);
 	// ensure hosts file path is valid
 	if (!hostsFilePath) {
 		return;
 	} 
-	const playbookFilePath = await pickFile('Select your playbook file', true);
+	const playbookFilePath = useBinding ? boundPlaybookPath : await pickFile('Select your playbook file', true);
 	console.log(`Playbook file path selected: ${playbookFilePath}`);
 	// ensure playbook file path is valid
 	if (!playbookFilePath) {
 		return;
 	} 
-	const varsFilePath = await pickFile('Select your vars file');
+	const varsFilePath = useBinding ? textEditor.document.uri.fsPath : await pickFile('Select your vars file');
 	console.log(`Vars file path selected: ${varsFilePath}`);
 	// ensure vars file path is valid
 	if (!varsFilePath) {
 		return;
 	} 
 
+	// let user run with the options remembered for this vars file or change them (check mode, tags, host limit, verbosity)
+	const runOptions = await pickRunOptions(varsFilePath, hostsFilePath);
+	if (!runOptions) {
+		return;
+	}
+
 	// retrieve name of playbook file from its absolute path
 	const playbookRun = playbookFilePath.split("/").pop();
 
 	// create output channel to display important Ansible playbook results to the user
 	const outputChannel = vscode.window.createOutputChannel('Ansible Playbook Output');
 	outputChannel.show(true);
-	outputChannel.appendLine(`Running playbook: ${playbookRun} with vars file: ${varsFilePath}\n`);
+	outputChannel.appendLine(`Running playbook: ${playbookRun} with vars file: ${varsFilePath}`);
+	outputChannel.appendLine(`Run options: ${describeRunOptions(runOptions)}\n`);
 
 	// get CatC log file path from cloned GitHub repo in user's workspace
 	let catcLogPath = "";
+	const workflow = playbookFilePath.split('/workflows/')[1]?.split('/')[0] ?? "";
 	const logURIs = await vscode.workspace.findFiles(`**/workflows/${workflow}/playbook/dnac_log.log`);
 	if (logURIs.length === 0) {
 		catcLogPath = `${vscode.workspace.rootPath}/ai-assistant-catalyst-center-ansible-iac/workflows/${workflow}/playbook/dnac_log.log`;
@@ -373,42 +532,124 @@ async function runAnsiblePlaybook(textEditor: vscode.TextEditor) {
 	} 
 	await fsPromises.mkdir(path.dirname(ansibleLogPath), { recursive: true });
 
-	// run ansible-playbook terminal command on vars file
+	// run playbook on vars file (through ansible-runner), streaming its output into the output channel & Ansible log file as it runs
 	const startTime = new Date();
 	outputChannel.appendLine(`Start time: ${startTime.toLocaleString()}\n`);
-	await new Promise<void>((resolve, reject) => {
-		exec(`"${ansiblePlaybookPath}" -i "${hostsFilePath}" "${playbookFilePath}" --extra-vars "@${varsFilePath}" -vvv`, { env }, async (error: any, stdout: string, stderr: string) => {
-			const endTime = new Date();
-			const duration = ((endTime.getTime() - startTime.getTime()) / 1000).toFixed(3); 
+	const result = await runPlaybook({
+		ansiblePlaybookPath: ansiblePlaybookPath || 'ansible-playbook',
+		hostsFilePath,
+		playbookFilePath,
+		varsFilePath,
+		extraArgs: runOptionArgs(runOptions),
+		env,
+		logPath: ansibleLogPath,
+		outputChannel,
+		progress,
+		token
+	});
+	const endTime = new Date();
+
+	// notify user if playbook run was cancelled, failed or succeeded
+	if (result.cancelled) {
+		vscode.window.showWarningMessage(`Playbook execution cancelled ⏹️`);
+	} else if (result.error || result.exitCode !== 0) {
+		outputChannel.appendLine(`\n--- ERROR ---\nansible-playbook ${result.error ? `could not be run: ${result.error}` : `exited with code ${result.exitCode}`}`);
+		vscode.window.showErrorMessage(`Playbook execution failed ❌`);
+	} else if (runOptions.check) {
+		vscode.window.showInformationMessage(`Playbook check mode run successful! 👍 No changes were made, see the output for the diff.`);
+	} else {
+		vscode.window.showInformationMessage(`Playbook execution successful! 👍`);
+	}
 
-			// write output to Ansible log file
-			fs.writeFileSync(ansibleLogPath, `--- STDOUT ---\n${stdout}\n--- STDERR ---\n${stderr}`);
+	outputChannel.appendLine(`\nEnd time: ${endTime.toLocaleString()}`);
+	outputChannel.appendLine(`Execution time: ${result.durationSeconds.toFixed(3)} seconds\n`);
+	outputChannel.appendLine(`Check the logs for more details:\n`);
+	outputChannel.appendLine(`Ansible log: ${ansibleLogPath}`);
+	outputChannel.appendLine(`CatC log: ${catcLogPath}`);
+
+	// show per-task & per-host results in the Playbook Results view
+	if (result.events.length > 0) {
+		const { tasks, recap } = summarizeJobEvents(result.events);
+		await showPlaybookSummary({
+			playbook: playbookRun || playbookFilePath,
+			varsFile: varsFilePath,
+			checkMode: runOptions.check,
+			status: result.cancelled ? 'cancelled' : result.exitCode === 0 ? 'successful' : 'failed',
+			durationSeconds: result.durationSeconds,
+			tasks,
+			recap,
+			ansibleLogPath,
+			taskLogLines: await readTaskLogLines(ansibleLogPath),
+			catcLogPath
+		});
+	}
+}
 
-			// append all output to output channel
-			outputChannel.appendLine(`--- STDOUT ---\n${stdout}`);
+/**
+ * Binds vars file open in text editor to a workflow, playbook, and validation schema chosen by the user.
+ * Binding is saved in .nac/bindings.json so Validate & Lint and Run Playbook work without a prior chat.
+ */
+async function bindVarsFile(textEditor: vscode.TextEditor) {
+	// list workflows from cloned GitHub repo (RAG may not be initialized yet)
+	const workflowsDir = `${vscode.workspace.rootPath}/ai-assistant-catalyst-center-ansible-iac/workflows`;
+	if (!fs.existsSync(workflowsDir)) {
+		vscode.window.showErrorMessage("Workflows are not available yet. Please wait for the catalyst-center-ansible-iac repository to be cloned.");
+		return;
+	}
+	const current = getDocumentTask(textEditor.document.uri);
+	const workflowNames = fs.readdirSync(workflowsDir).filter(w => fs.existsSync(path.join(workflowsDir, w, 'playbook'))).sort();
 
-			// notify user if playbook run failed or succeeded
-			if (error) {
-				// if errors present, notify user that playbook run failed 
-				if (error) {
-					outputChannel.appendLine(`--- ERROR ---\n${error.message}`);
-				} else {
-					outputChannel.appendLine(`--- STDERR ---\n${stderr}`);
-				}
-				vscode.window.showErrorMessage(`Playbook execution failed ❌`);
-			} else {
-				// else notify user that playbook run was successful
-				vscode.window.showInformationMessage(`Playbook execution successful! 👍`);
-			} 
-
-			outputChannel.appendLine(`End time: ${endTime.toLocaleString()}`);
-			outputChannel.appendLine(`Execution time: ${duration} seconds\n`);
-			outputChannel.appendLine(`Check the logs for more details:\n`);
-			outputChannel.appendLine(`Ansible log: ${ansibleLogPath}`);
-			outputChannel.appendLine(`CatC log: ${catcLogPath}`);
-			resolve();
-		});
+	// ask user to select workflow & playbook
+	const selectedWorkflow = await vscode.window.showQuickPick(workflowNames, {
+		placeHolder: current ? `Select a workflow (currently bound to ${current.workflow})` : "Select a workflow for this vars file"
+	});
+	if (!selectedWorkflow) {
+		return;
+	}
+	const playbookNames = fs.readdirSync(path.join(workflowsDir, selectedWorkflow, 'playbook')).filter(f => /\.ya?ml$/.test(f)).sort();
+	const selectedPlaybook = playbookNames.length === 1 ? playbookNames[0] : await vscode.window.showQuickPick(playbookNames, {
+		placeHolder: "Select a playbook for this vars file"
 	});
+	if (!selectedPlaybook) {
+		return;
+	}
+
+	// identify validation schema based on workflow & playbook
+	const schemaFile = await findValidationSchemaFile(selectedWorkflow, selectedPlaybook);
+	await bindDocumentTask(textEditor.document.uri, { workflow: selectedWorkflow, playbook: selectedPlaybook, schemaFile });
+	vscode.window.showInformationMessage(`Bound ${vscode.workspace.asRelativePath(textEditor.document.uri)} to ${selectedPlaybook}.`);
+}
+
+/**
+ * Binds a saved vars file in data/ or data_deletion/ that has no binding yet to a task from the last chat response.
+ * Binds automatically if the file's top-level keys match the schema of exactly one of its tasks, otherwise offers to pick its playbook
+ * once per file & session.
+ */
+async function bindSavedVarsFile(document: vscode.TextDocument) {
+	const session = getLastSession();
+	if (!session || session.tasks.length === 0 || !isVarsFile(document.uri) || getDocumentTask(document.uri)) {
+		return;
+	}
+
+	const fileName = vscode.workspace.asRelativePath(document.uri);
+	const matching = await matchingSessionTasks(session, document.getText());
+	if (matching.length === 1) {
+		await bindDocumentTask(document.uri, matching[0]);
+		vscode.window.showInformationMessage(`Bound ${fileName} to ${matching[0].playbook}. Use "Bind Vars File to Workflow" to change it.`);
+		return;
+	}
+
+	const asked = askedBindingFiles.get(session) ?? new Set<string>();
+	askedBindingFiles.set(session, asked);
+	if (asked.has(document.uri.toString())) {
+		return;
+	}
+	asked.add(document.uri.toString());
+
+	const choice = await vscode.window.showInformationMessage(`Which playbook is ${fileName} for?`, "Choose Playbook");
+	if (choice) {
+		await resolveDocumentTask(document.uri, session);
+	}
 }
 
 /**
@@ -463,22 +704,59 @@ async function pickFile(placeholder: string, isPlaybook: boolean = false): Promi
 
 /**
  * Identifies workflow to use based on user's request using RAG.
- * Returns identified workflow as a string.
+ * Model is passed in separately from the chat request so the classification benchmark can supply its own model.
+ * Returns ranked workflow candidates and the top valid workflow with its confidence.
  */
-async function identifyWorkflow(request: vscode.ChatRequest, token: vscode.CancellationToken, prompt: string): Promise<string> {
+export async function identifyWorkflow(model: vscode.LanguageModelChat, token: vscode.CancellationToken, prompt: string): Promise<WorkflowIdentification> {
 	console.log("Identifying workflow for user's request...");
-	let identifiedWorkflow = "";
 
-	// embeds user query, performs similarity search to retrieve top chunks, & identifies relevant workflow
-	identifiedWorkflow = await retrieveAndGenerateRAGWorkflow(prompt, 10, request, token);
-	return identifiedWorkflow.toLowerCase().trim();
+	// embeds user query, performs hybrid search to retrieve top chunks, & ranks relevant workflows
+	const candidates = (await retrieveAndGenerateRAGWorkflow(prompt, 10, model, token)).filter(c => workflows.includes(c.workflow));
+	console.log("Workflow candidates: ", candidates);
+
+	if (candidates.length === 0) {
+		return { workflow: "", confidence: 0, candidates };
+	}
+	return { workflow: candidates[0].workflow, confidence: candidates[0].score, candidates };
+}
+
+/**
+ * Streams the top workflow candidates to the user, to be picked from the follow-ups below the response.
+ * Returns chat result metadata used by provideWorkflowFollowups().
+ */
+function offerWorkflowCandidates(stream: vscode.ChatResponseStream, identification: WorkflowIdentification, prompt: string, task: string, message: string): WorkflowCandidatesMetadata {
+	const candidates = identification.candidates.slice(0, MAX_WORKFLOW_FOLLOWUPS);
+	if (candidates.length === 0) {
+		stream.markdown("Failed to retrieve information from model. Please try again.");
+	} else {
+		stream.markdown(`${message}\n\n${candidates.map(c => `- \`${c.workflow}\` (${(c.score * 100).toFixed(0)}% confidence)`).join('\n')}\n\nPick a workflow below to continue.\n\n`);
+	}
+	return { workflowCandidates: candidates, candidatePrompt: prompt, candidateTask: task };
+}
+
+/**
+ * Provides one follow-up per workflow candidate: the original prompt with the candidate annotated on the task it applies to.
+ */
+function provideWorkflowFollowups(result: vscode.ChatResult): vscode.ChatFollowup[] {
+	const metadata = result.metadata as WorkflowCandidatesMetadata | undefined;
+	if (!metadata?.workflowCandidates) {
+		return [];
+	}
+
+	return metadata.workflowCandidates.map(c => {
+		const annotatedTask = `${metadata.candidateTask} (workflow: ${c.workflow})`;
+		const prompt = metadata.candidatePrompt.includes(metadata.candidateTask)
+			? metadata.candidatePrompt.replace(metadata.candidateTask, annotatedTask)
+			: `${metadata.candidatePrompt} (workflow: ${c.workflow})`;
+		return { prompt, label: `Use ${c.workflow} workflow` };
+	});
 }
 
 /**
  * Finds playbook for user's request based on identified workflow.
  * Returns name of identified playbook file as a string.
  */
-async function identifyPlaybook(request: vscode.ChatRequest, token: vscode.CancellationToken): Promise<string> {
+export async function identifyPlaybook(model: vscode.LanguageModelChat, token: vscode.CancellationToken, prompt: string, workflow: string): Promise<string> {
 	console.log("Searching for playbooks...");
 	// based on workflow selected, search for names of all playbooks in cloned GitHub repo
 	const playbooks = [];
@@ -492,21 +770,29 @@ async function identifyPlaybook(request: vscode.ChatRequest, token: vscode.Cance
 	let p = '';
 	console.log(`Playbooks found (${playbooks.length}): `, playbooks);
 
-	// if multiple playbooks found, identify which to use based on user's request
-	if (playbooks.length > 1) {
+	// if user literally named one of the playbook files, use it (longest match so "delete_x_playbook.yml" wins over "x_playbook.yml")
+	const namedPlaybooks = playbooks
+		.map(f => f.replace(/.*playbook\//, ""))
+		.filter(f => prompt.toLowerCase().includes(f.toLowerCase()))
+		.sort((a, b) => b.length - a.length);
+
+	if (namedPlaybooks.length > 0) {
+		p = namedPlaybooks[0];
+	} else if (playbooks.length > 1) {
+		// if multiple playbooks found, identify which to use based on user's request
 		// prompt model to select playbook based on user's request 
 		const PLAYBOOK_SELECTION_PROMPT = `You are a helpful assistant. Your job is to select the appropriate playbook to use for the user's request based on the playbook file names provided. 
 		You should just provide the file name of the playbook to use as a string. Keep in mind that words like "delete" or "remove" often relate to playbooks with "delete" in the name.
 		Here is an example of a response you would generate: delete_ise_radius_integration_workflow_playbook.yml
 		\nThe available playbooks are: ${playbooks.join(',')} \n
 		Here is the user prompt: \n
-		${request.prompt}`;
+		${prompt}`;
 
 		const messages = [vscode.LanguageModelChatMessage.User(PLAYBOOK_SELECTION_PROMPT)];
 
 		// send request to Copilot LLM model
 		try {
-			const chatResponse = await request.model.sendRequest(messages, {}, token);
+			const chatResponse = await model.sendRequest(messages, {}, token);
 			let data = '';
 			for await (const fragment of chatResponse.text) {
 				data += fragment;
@@ -517,7 +803,7 @@ async function identifyPlaybook(request: vscode.ChatRequest, token: vscode.Cance
 			console.error("Error identifying playbook using Copilot LLM model: ", error);
 			return '';
 		}
-	} else {
+	} else if (playbooks.length === 1) {
 		// if only 1 playbook found, use that for user's request
 		p = playbooks[0];
 	}
@@ -527,10 +813,10 @@ async function identifyPlaybook(request: vscode.ChatRequest, token: vscode.Cance
 }
 
 /**
- * Finds validation schema for user's request based on identified workflow.
- * Returns content of validation schema file as a string.
+ * Finds validation schema file for user's request based on identified workflow & playbook.
+ * Returns absolute path of validation schema file, or an empty string if the workflow has none.
  */
-export async function selectValidationSchema(workflow: string): Promise<string> {
+export async function findValidationSchemaFile(workflow: string, playbook: string): Promise<string> {
 	console.log(`Searching for validation schema for workflow ${workflow}...`);
 	// search for validation schema in cloned GitHub repo
 	const uris = await vscode.workspace.findFiles(`**/ai-assistant-catalyst-center-ansible-iac/workflows/${workflow}/schema/*_schema.yml`);
@@ -542,21 +828,27 @@ export async function selectValidationSchema(workflow: string): Promise<string>
 	} else {
 		fileNames = fileNames.filter(file => !file.includes('delete'));
 	}
-	
 
-	// get name of validation schema file
-	if (fileNames.length !== 0 && fileNames[0]) {
-		validation_schema_file = fileNames[0].replace(/.*schema\//, "");
-	} else {
-		validation_schema_file = "";
+	if (fileNames.length === 0 || !fileNames[0]) {
 		return "";
 	}
 
-	console.log("Validation schema file identified: ", validation_schema_file);
+	console.log("Validation schema file identified: ", fileNames[0].replace(/.*schema\//, ""));
+	return fileNames[0];
+}
+
+/**
+ * Reads content of a validation schema file.
+ * Returns an empty string if no schema file is given or it cannot be read.
+ */
+export async function readValidationSchema(schemaFile: string): Promise<string> {
+	if (!schemaFile) {
+		return "";
+	}
 
 	// read & return content of validation schema file
 	try {
-		const schemaContent = await fsPromises.readFile(fileNames[0], 'utf8');
+		const schemaContent = await fsPromises.readFile(schemaFile, 'utf8');
 		return schemaContent;
 	} catch (error) {
 		console.error("Error reading validation schema file: ", error);
@@ -653,21 +945,7 @@ async function cloneGitHubRepo(): Promise<boolean> {
 			console.error("Error retrieving latest commit hash of GitHub repository: ", error);
 		}
 
-		try {
-			await new Promise<void>((resolve, reject) => {
-				exec(`${gitPath} -C "${clonedRepoPath}" rev-parse HEAD`, (error: any, stdout: string, stderr: string) => {
-					if (error) {
-						console.error(`Error retrieving commit hash of cloned repository: ${error.message}`);
-						reject(error);
-						return;
-					}
-					repoCommitHash = stdout.trim();
-					resolve();
-				});
-			});
-		} catch (error) {
-			console.error("Error retrieving commit hash of cloned repository: ", error);
-		}
+		repoCommitHash = await getClonedRepoCommitHash();
 	}
 
 	console.log(`GitHub commit hash: ${githubCommitHash} VS cloned repository commit hash: ${repoCommitHash}`);
@@ -708,6 +986,79 @@ async function cloneGitHubRepo(): Promise<boolean> {
 	return clonedRepo;
 }
 
+/**
+ * Retrieves commit hash of the cloned GitHub repository in user's workspace.
+ * Returns the commit hash as a string, or an empty string if it could not be retrieved.
+ */
+async function getClonedRepoCommitHash(): Promise<string> {
+	const gitPath = vscode.workspace.getConfiguration('nac-copilot').get<string>('gitPath');
+	const clonedRepoPath = `${vscode.workspace.rootPath}/ai-assistant-catalyst-center-ansible-iac`;
+	let repoCommitHash = "";
+
+	try {
+		await new Promise<void>((resolve, reject) => {
+			exec(`${gitPath} -C "${clonedRepoPath}" rev-parse HEAD`, (error: any, stdout: string, stderr: string) => {
+				if (error) {
+					console.error(`Error retrieving commit hash of cloned repository: ${error.message}`);
+					reject(error);
+					return;
+				}
+				repoCommitHash = stdout.trim();
+				resolve();
+			});
+		});
+	} catch (error) {
+		console.error("Error retrieving commit hash of cloned repository: ", error);
+	}
+
+	return repoCommitHash;
+}
+
+/**
+ * Handles "/validate export [sarif|junit] [data|<vars file path>]": validates a single vars file (path relative to the workspace root)
+ * or every vars file in data/ (default), writes SARIF and/or JUnit XML reports (default both), and streams a summary per file.
+ */
+async function exportValidationChatReport(prompt: string, stream: vscode.ChatResponseStream, token: vscode.CancellationToken) {
+	const words = prompt.trim().split(/\s+/).slice(1);
+	const formats = words.filter(w => /^(sarif|junit)$/i.test(w)).map(w => w.toLowerCase() as ReportFormat);
+	const target = words.filter(w => !/^(sarif|junit)$/i.test(w)).join(' ');
+
+	let uris: vscode.Uri[];
+	if (!target || /^data\/?$/.test(target)) {
+		uris = await findVarsFiles();
+	} else {
+		const varsFilePath = path.resolve(vscode.workspace.rootPath || "", target);
+		if (!fs.existsSync(varsFilePath)) {
+			stream.markdown(`Could not find vars file \`${target}\` in your workspace.`);
+			return;
+		}
+		uris = [vscode.Uri.file(varsFilePath)];
+	}
+	if (uris.length === 0) {
+		stream.markdown("No vars files found in the `data/` folder of your workspace.");
+		return;
+	}
+
+	stream.progress(`Validating ${uris.length} vars file${uris.length === 1 ? "" : "s"}...`);
+	const { results, reportPaths } = await exportValidationReports(uris, formats.length > 0 ? [...new Set(formats)] : ['sarif', 'junit'], undefined, token);
+	if (token.isCancellationRequested) {
+		return;
+	}
+
+	let summary = "| Vars file | Errors | Warnings | Tools |\n| --- | --- | --- | --- |\n";
+	for (const r of results) {
+		const errors = r.findings.filter(f => f.severity === 'error').length;
+		summary += `| ${r.file} | ${errors} | ${r.findings.length - errors} | ${r.tools.join(', ')} |\n`;
+	}
+	stream.markdown(summary);
+	stream.markdown("\nReports:\n");
+	for (const reportPath of reportPaths) {
+		stream.markdown("- ");
+		stream.anchor(vscode.Uri.file(reportPath), path.basename(reportPath));
+		stream.markdown("\n");
+	}
+}
+
 /**
  * Handles chat requests from the user.
  * Initializes RAG (as needed), clones GitHub repo (as needed), and handles chat assistant (@assistant) with commands (/ask, /validate).
@@ -753,11 +1104,11 @@ const handler: vscode.ChatRequestHandler = async (
 			title: "Cloning GitHub repository for updated files. Please wait...",
 			cancellable: false
 		}, async () => {
-			// fetch README files from newly cloned GitHub repo
-			await fetchREADMEFiles();
+			// re-read workflow files from newly cloned GitHub repo (workflow names may be unchanged while their files changed)
+			await fetchWorkflowFiles(true);
 
-			// generate RAG embeddings
-			await indexDataRAG();
+			// generate RAG embeddings for changed workflows
+			await indexDataRAG(ragIndexCachePath, await getClonedRepoCommitHash());
 
 			// wait 3 additional seconds for steps below to complete
 			await new Promise(resolve => setTimeout(resolve, 3000));
@@ -771,43 +1122,16 @@ const handler: vscode.ChatRequestHandler = async (
 		// get response from RAG approach
 		const llmResponse = await retrieveAndGenerateRAGGeneral(request.prompt, 10, request, token);
 		stream.markdown(llmResponse);
+	} else if (request.command === 'validate' && /^\s*export\b/i.test(request.prompt)) {
+		// "/validate export [sarif|junit] [data|<vars file path>]": write validation reports instead of validating pasted code
+		await exportValidationChatReport(request.prompt, stream, token);
+		return;
 	} else if (request.command === 'validate') {
-		// if sequential tasks have been identified, provide playbook options to user (to identify validation schema)
-		let valPath = "";
-		if (sequentialTasks) {
-			// add steps to sequential playbooks to make it easier for user to identify
-			for (let i = 0; i < sequentialPlaybooks.length; i++) {
-				if (!sequentialPlaybooks[i].includes("Step")) {
-					sequentialPlaybooks[i] = `Step ${i + 1}: ${sequentialPlaybooks[i]}`;
-				}
-			}
-	
-			// create quick pick menu to allow user to select a playbook for validation
-			const selectedPlaybook = await vscode.window.showQuickPick(sequentialPlaybooks, {
-				placeHolder: "Select a playbook to validate your vars file against",
-				matchOnDescription: true
-			});
-	
-			// retrieve full playbook path to identify workflow
-			const formattedPlaybook = selectedPlaybook ? selectedPlaybook.replace(/Step \d+: /, '') : '';
-			const playbookUri = await vscode.workspace.findFiles(`**/ai-assistant-catalyst-center-ansible-iac/**/playbook/${formattedPlaybook}`);
-			const fullPlaybookPath = playbookUri[0].fsPath;
-			const taskWorkflow = fullPlaybookPath.split('/workflows/')[1].split('/')[0];
-	
-			// identify validation schema file and content based on user selection
-			const uris = await vscode.workspace.findFiles(`**/ai-assistant-catalyst-center-ansible-iac/workflows/${taskWorkflow}/schema/*_schema.yml`);
-			let fileNames = uris.map(uri => uri.fsPath);
-
-			// if playbook includes "delete", schema should include "delete" in name
-			if (fileNames.length > 1 && formattedPlaybook.includes('delete')) {
-				fileNames = fileNames.filter(file => file.includes('delete'));
-			} else {
-				fileNames = fileNames.filter(file => !file.includes('delete'));
-			}
-
-			if (fileNames.length !== 0 && fileNames[0]) {
-				valPath = fileNames[0];
-			}
+		// resolve task to validate against from this conversation's session (user picks a playbook if several tasks were identified)
+		const session = sessionFromHistory(context);
+		let task: TaskContext | undefined;
+		if (session) {
+			task = session.tasks.length === 1 ? session.tasks[0] : await pickSessionTask(session, "Select a playbook to validate your vars file against");
 		}
 
 		// save user's code to temporary file on disk
@@ -824,29 +1148,16 @@ const handler: vscode.ChatRequestHandler = async (
 		let yamllintOutput = "";
 		let ansibleLintOutput = "";
 
-		// if workflow & validation_schema identified, run Yamale
-		if ((workflow && valPath) || (workflow && validation_schema)) {
-			const textEditor = vscode.window.activeTextEditor;
-			if (textEditor) {
-				const yamaleReturn = await yamale(false, tempFilePath, textEditor, valPath);
-				yamaleOutput = yamaleReturn[1];
-			} else {
-				const yamaleReturn = await yamale(false, tempFilePath);
-				yamaleOutput = yamaleReturn[1];
-			}
+		// if workflow & validation schema identified, run Yamale
+		if (task?.schemaFile) {
+			const yamaleReturn = await yamale(task, false, tempFilePath);
+			yamaleOutput = yamaleReturn[1];
 		} 
 
-		// run YAMLlint & Ansible Lint
-		const textEditor = vscode.window.activeTextEditor;
-		if (textEditor) {
-			const lintOutputs = await ansibleYAMLLint(false, tempFilePath, textEditor);
-			ansibleLintOutput = lintOutputs[0];
-			yamllintOutput = lintOutputs[1];
-		} else {
-			const lintOutputs = await ansibleYAMLLint(false, tempFilePath);
-			ansibleLintOutput = lintOutputs[0];
-			yamllintOutput = lintOutputs[1];
-		}
+		// run YAMLlint & Ansible Lint, formatting their findings for the prompt
+		const lintFindings = await ansibleYAMLLint(false, tempFilePath);
+		ansibleLintOutput = formatFindings(lintFindings.filter(f => f.tool === 'ansible-lint'));
+		yamllintOutput = formatFindings(lintFindings.filter(f => f.tool === 'yamllint'));
 
 		console.log(`\nAnsible Lint output: ${ansibleLintOutput}\n
 		YAMLlint output: ${yamllintOutput}\n
@@ -872,7 +1183,7 @@ const handler: vscode.ChatRequestHandler = async (
 		Finally, here is the user's YAML code that is being validated: \n${userCode}\n`;
 
 		// if workflow & validation schema not identified, notify user to identify playbook first (using @assistant chat participant)
-		if (!((workflow && valPath) || workflow && validation_schema)) {
+		if (!task?.schemaFile) {
 			PROMPT += `Notify the user BEFORE FIXED CODE IN THE RESPONSE to identify the playbook first in order to use Yamale validation using the \`\`\`@assistant\`\`\` chat feature to identify the appropriate playbook for their task.\n
 			MAKE SURE TO SPELL the following with proper camel case: Yamale, YAMLlint, Ansible Lint.
 			Here is an example of a response you would generate:\n
@@ -896,24 +1207,27 @@ const handler: vscode.ChatRequestHandler = async (
 		return;
 	} else {
 		// handle sequencing of tasks for multiple vars files & playbooks
-		sequentialTasks = false;
-
-		// retrieve content from usecase maps
+		// tasks identified for this request are returned as the conversation's session state
+		let workflow = "";
+		let playbook = "";
+		let validation_schema = "";
+		let session: SessionState = { tasks: [] };
+		let lowConfidenceCandidates: WorkflowCandidatesMetadata | undefined;
+
+		// retrieve dependency rules & usecase maps used to order the tasks of the user's prompt
 		const __dirname = path.dirname(fileURLToPath(import.meta.url));
 		const root = path.resolve(__dirname, '..');
+		const dependencyGraph = await loadDependencyGraph(root);
 
-		const day0_discovery = await fsPromises.readFile(path.join(root, 'day0_discovery.yml'), 'utf8');
-		const day1_provisioning = await fsPromises.readFile(path.join(root, 'day1_provisioning.yml'), 'utf8');
-		const dayN_operations = await fsPromises.readFile(path.join(root, 'dayN_operations.yml'), 'utf8');
-		const dayN_removal = await fsPromises.readFile(path.join(root, 'dayN_removal.yml'), 'utf8');
-
-		// LLM prompt to identify whether user's prompt is referring to using a singular playbook or sequence of utilizing multiple playbooks; utilizes NaC usecase mapping as context 
+		// LLM prompt to identify whether user's prompt is referring to using a singular playbook or sequence of utilizing multiple playbooks
+		// tasks are ordered afterwards by their dependencies, not by the LLM
 		let prompt = `Your job is to analyze the user's prompt and break it into a list of distinct tasks, where each task corresponds to a specific playbook or workflow needed to fulfill the user's request.
 		- Only split the prompt if the user's request clearly requires multiple workflows or playbooks.
 		- If the entire prompt relates to a single workflow, return a single-item list containing the whole prompt.
 		- Do NOT split the prompt into individual words or phrases that do not represent complete tasks.
 		- Each item in the list should be a full sentence or phrase describing a specific task or workflow.
 		- IMPORTANT: Return your answer as a JSON array of strings. Each string should be a complete task corresponding to a workflow, not a singular word.
+		- Keep the tasks in the order they appear in the user's prompt.
 
 		Here are the available workflows: ${workflows.join(', ')}.
 
@@ -932,28 +1246,6 @@ const handler: vscode.ChatRequestHandler = async (
 		Output: ["Add users to the network", "configure device credentials"]
 		\n
 
-		Here are some additional examples where playbooks / workflows are used in succession for an idea of common usecases and ordering.
-		IMPORTANT: Use these examples to reorder the user's prompt into a sequence of correctly ordered tasks. Double check the list of tasks against these examples to make sure they make sense in succession. If the tasks don't make sense in comparison to these examples, use these examples to identify the correct order of tasks.
-		IMPORTANT: Use logic to also see if the ordering needs to be changed. For instance, sites cannot be used later if they have not been created, so create sites first before doing other steps that require sites. Another example is that devices must be discovered before being provisioned or added to anything like inventory or configurations.
-		IMPORTANT: If a step is creating, finding, or discovering something that is referenced in another step, make sure to perform this step of creation, finding, or discovering before the step that references it. So fix the ordering if this is the case.
-		MAKE SURE you return a JSON array of strings, where each string is a task IN THE CORRECT ORDER.
-		Each comment section corresponds to a successive task using a different playbook / workflow:
-		\n Example 1:
-		${day0_discovery}
-		\n
-
-		\n Example 2:
-		${day1_provisioning}
-		\n
-
-		\n Example 3:
-		${dayN_operations}
-		\n
-
-		\n Example 4:
-		${dayN_removal}
-		\n
-
 		Now, split the following prompt from the user accordingly:
 		${request.prompt}
 		`;
@@ -986,29 +1278,40 @@ const handler: vscode.ChatRequestHandler = async (
 		const taskDescriptions: string[] = [];
 		const taskWorkflows: string[] = [];
 		const taskValidationSchemas: string[] = [];
+		const taskSchemaFiles: string[] = [];
 		const taskPlaybooks: string[] = [];
 		const taskPlaybookPaths: string[] = [];
 		const taskVarsFiles: String[] = [];
 
-		// iterate through each task in the separated prompts to identify workflow, validation schema, playbook, and example vars files
-		let previousPlaybook = "";
+		// identify workflow & playbook of each task in the separated prompts
+		const identifiedTasks: { description: string, workflow: string, playbook: string }[] = [];
 		for (const task of separatedPrompts) {
-			// identify workflow to use based on task
-			workflow = await identifyWorkflow(request, token, task);
-			if (!workflows.includes(workflow)) {
-				stream.markdown("Failed to retrieve information from model. Please try again.");
-				return;
+			// identify workflow to use based on task; if no confident candidate, let user pick one for this task
+			const identification = await identifyWorkflow(request.model, token, task);
+			workflow = identification.workflow;
+			if (!workflow || identification.confidence < WORKFLOW_CONFIDENCE_THRESHOLD) {
+				return { metadata: offerWorkflowCandidates(stream, identification, request.prompt, task, `I couldn't confidently identify the workflow for the task "${task}". The closest matches are:`) };
 			}
 
 			// identify playbook to use based on workflow & task
-			const taskPlaybook = await identifyPlaybook(request, token);
-			playbook = taskPlaybook;
+			identifiedTasks.push({ description: task, workflow, playbook: await identifyPlaybook(request.model, token, task, workflow) });
+		}
 
-			// fetch validation schema for the vars file based on workflow selected
-			const taskValSchema = await selectValidationSchema(workflow);
+		// order tasks by their dependencies (e.g. sites before inventory before provisioning), deletions in reverse
+		const orderedTasks = orderTasks(identifiedTasks, dependencyGraph);
+		if (orderedTasks.some((t, i) => t !== identifiedTasks[i])) {
+			console.log("Tasks reordered by dependencies: ", orderedTasks.map(t => t.workflow));
+		}
+
+		// iterate through each ordered task to fetch validation schema & example vars files
+		let previousPlaybook = "";
+		for (const { description: task, workflow: taskWorkflow, playbook: taskPlaybook } of orderedTasks) {
+			// fetch validation schema for the vars file based on workflow & playbook selected
+			const taskSchemaFile = await findValidationSchemaFile(taskWorkflow, taskPlaybook);
+			const taskValSchema = await readValidationSchema(taskSchemaFile);
 
 			// search for vars files in extension files (cloned GitHub repo)
-			const varsFiles = await getVarsFiles(workflow, true, taskPlaybook);
+			const varsFiles = await getVarsFiles(taskWorkflow, true, taskPlaybook);
 
 			// if previous playbook is not empty and is same as the current playbook, combine task descriptions
 			if (previousPlaybook !== "" && previousPlaybook === taskPlaybook) {
@@ -1016,10 +1319,11 @@ const handler: vscode.ChatRequestHandler = async (
 			} else {
 				// if previous playbook is different, update lists with new task data
 				taskDescriptions.push(task);
-				taskWorkflows.push(workflow);
+				taskWorkflows.push(taskWorkflow);
 				taskValidationSchemas.push(taskValSchema);
+				taskSchemaFiles.push(taskSchemaFile);
 				taskPlaybooks.push(taskPlaybook);
-				taskPlaybookPaths.push(`https://github.com/cisco-en-programmability/catalyst-center-ansible-iac/blob/main/workflows/${workflow}/playbook/${taskPlaybook}`);
+				taskPlaybookPaths.push(`https://github.com/cisco-en-programmability/catalyst-center-ansible-iac/blob/main/workflows/${taskWorkflow}/playbook/${taskPlaybook}`);
 				taskVarsFiles.push(varsFiles);
 
 				// update previous playbook to current playbook
@@ -1045,8 +1349,9 @@ const handler: vscode.ChatRequestHandler = async (
 			separatedPrompts = [request.prompt];
 		} else {
 			console.log("Multiple playbooks identified for user's request: ", taskPlaybooks);
-			sequentialTasks = true;
-			sequentialPlaybooks = taskPlaybooks
+			session = {
+				tasks: taskPlaybooks.map((p, i) => ({ workflow: taskWorkflows[i], playbook: p, schemaFile: taskSchemaFiles[i] }))
+			};
 		}
 
 		// if multiple playbooks, break user prompt into sequence of steps & generate vars file for each individual step 
@@ -1124,9 +1429,11 @@ const handler: vscode.ChatRequestHandler = async (
 			const messages = [vscode.LanguageModelChatMessage.User(SEQUENCE_VARS_PROMPT)];
 
 			// send request to Copilot LLM model
+			let response = "";
 			try {
 				const chatResponse = await request.model.sendRequest(messages, {}, token);
 				for await (const fragment of chatResponse.text) {
+					response += fragment;
 					stream.markdown(fragment);
 				}
 			} catch (error) {
@@ -1134,23 +1441,45 @@ const handler: vscode.ChatRequestHandler = async (
 				stream.markdown("Failed to retrieve information from model. Please try again.");
 				return;
 			}
+
+			// offer to save the vars file of each task into data/ with a usecase map running their playbooks in order
+			const steps = generatedSteps(response, session.tasks);
+			if (steps) {
+				// warn about sites, tags & device IPs that a step references but no earlier step or vars file in data/ creates
+				const existingVarsFiles = await Promise.all((await findVarsFiles(['data'])).map(uri => fsPromises.readFile(uri.fsPath, 'utf8')));
+				const unresolved = findUnresolvedReferences(steps.map(step => step.content), existingVarsFiles, dependencyGraph);
+				if (unresolved.length > 0) {
+					stream.markdown("\n\n⚠️ **Unresolved references:** these objects are not created by an earlier step or a vars file in `data/`. Make sure they already exist on Catalyst Center:\n");
+					for (const reference of unresolved) {
+						stream.markdown(`- STEP ${reference.step + 1} (${steps[reference.step].title}): ${reference.kind} \`${reference.value}\`\n`);
+					}
+				}
+				stream.button({ command: 'save-usecase-map', title: "Save Vars Files & Use Case Map", arguments: [request.prompt, steps] });
+			}
 		} else {
 			// if singular playbook, generate 1 vars file for user's request 
 			// identify workflow to use based on user's input
-			workflow = await identifyWorkflow(request, token, request.prompt);
+			const identification = await identifyWorkflow(request.model, token, request.prompt);
+			workflow = identification.workflow;
 			// handle case where workflow is not correctly identified / hallucination occurs
 			console.log("workflows:", workflows);
 			console.log("workflow:", workflow);
-			if (!workflows.includes(workflow)) {
-				stream.markdown("Failed to retrieve information from model. Please try again.");
-				return;
+			if (!workflow) {
+				return { metadata: offerWorkflowCandidates(stream, identification, request.prompt, request.prompt, "I couldn't identify the workflow for your request. The closest matches are:") };
+			}
+
+			// if workflow has low confidence, continue with it but offer the other candidates as follow-ups
+			if (identification.confidence < WORKFLOW_CONFIDENCE_THRESHOLD) {
+				lowConfidenceCandidates = offerWorkflowCandidates(stream, { ...identification, candidates: identification.candidates.slice(1) }, request.prompt, request.prompt, `I'm not fully confident that \`${workflow}\` (${(identification.confidence * 100).toFixed(0)}% confidence) is the right workflow, so I used it below. Other possible workflows are:`);
 			}
 
 			// identify playbook to use based on workflow & user's request
-			playbook = await identifyPlaybook(request, token);
+			playbook = await identifyPlaybook(request.model, token, request.prompt, workflow);
 
-			// fetch validation schema for the vars file based on workflow selected
-			validation_schema = await selectValidationSchema(workflow);
+			// fetch validation schema for the vars file based on workflow & playbook selected
+			const schemaFile = await findValidationSchemaFile(workflow, playbook);
+			validation_schema = await readValidationSchema(schemaFile);
+			session = { tasks: [{ workflow, playbook, schemaFile }] };
 
 			// link to playbook in GitHub repo
 			const playbookPath = `https://github.com/cisco-en-programmability/catalyst-center-ansible-iac/blob/main/workflows/${workflow}/playbook/${playbook}`;
@@ -1205,9 +1534,11 @@ const handler: vscode.ChatRequestHandler = async (
 			const messages = [vscode.LanguageModelChatMessage.User(VARS_PROMPT)];
 
 			// send request to Copilot LLM model
+			let response = "";
 			try {
 				const chatResponse = await request.model.sendRequest(messages, {}, token);
 				for await (const fragment of chatResponse.text) {
+					response += fragment;
 					stream.markdown(fragment);
 				}
 			} catch (error) {
@@ -1215,7 +1546,15 @@ const handler: vscode.ChatRequestHandler = async (
 				stream.markdown("Failed to retrieve information from model. Please try again.");
 				return;
 			}
+
+			// offer to insert the generated vars file into a new vars file or apply it to the open one, bound to the identified task
+			offerVarsFileButtons(stream, response, session.tasks[0]);
 		}
+
+		// record identified tasks so /validate in this conversation & Validate & Lint on unbound vars files can use them
+		// also offer other workflow candidates as follow-ups if workflow was identified with low confidence
+		setLastSession(session);
+		return { metadata: { session, ...lowConfidenceCandidates } };
 	}
 };
 
@@ -0,0 +1,228 @@
+import * as vscode from 'vscode';
+import { exec } from 'child_process';
+import { YamaleError } from './yamaleValidator.js';
+import { TaskContext } from './session.js';
+
+// validation tools whose results are reported as findings
+export type FindingTool = 'yamale' | 'yamllint' | 'ansible-lint';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+// single validation result shared by annotations / diagnostics, the /validate chat command & report exports
+// line & column are 1-based like the tools report them; endLine & endColumn are only known for Yamale errors
+export interface Finding {
+    tool: FindingTool;
+    rule: string;
+    severity: FindingSeverity;
+    line: number;
+    column: number;
+    endLine?: number;
+    endColumn?: number;
+    message: string;
+}
+
+// findings of one vars file (path relative to the workspace root) & the tools that were run on it
+// Yamale only runs on vars files with a known schema, linters only if they are installed
+export interface VarsFileFindings {
+    file: string;
+    task?: TaskContext;
+    tools: FindingTool[];
+    findings: Finding[];
+}
+
+// exit code & output of a lint command that could be run
+export interface LintCommandResult {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
+}
+
+// ansible-lint codeclimate issue (subset of the fields used here)
+interface CodeclimateIssue {
+    check_name?: string;
+    description?: string;
+    severity?: string;
+    location?: {
+        path?: string;
+        lines?: { begin?: number | { line?: number, column?: number } };
+        positions?: { begin?: { line?: number, column?: number } };
+    };
+}
+
+// codeclimate severities reported by ansible-lint mapped to finding severities
+const CODECLIMATE_SEVERITIES: { [severity: string]: FindingSeverity } = {
+    blocker: 'error',
+    critical: 'error',
+    major: 'error',
+    minor: 'warning',
+    info: 'info',
+};
+
+/**
+ * Parses yamllint output in its parsable format ("file:line:column: [level] message (rule)" per finding).
+ */
+function parseYamlLintOutput(output: string): Finding[] {
+    const findings: Finding[] = [];
+    for (const line of output.split('\n')) {
+        // match from the end of the line, since file paths may contain ":" (e.g. Windows drive letters)
+        const match = line.match(/:(\d+):(\d+): \[(error|warning)\] (.*?)(?: \(([\w-]+)\))?\s*$/);
+        if (match) {
+            findings.push({
+                tool: 'yamllint',
+                rule: match[5] || "",
+                severity: match[3] as FindingSeverity,
+                line: parseInt(match[1], 10),
+                column: parseInt(match[2], 10),
+                message: match[4],
+            });
+        }
+    }
+    return findings;
+}
+
+/**
+ * Parses ansible-lint output in codeclimate format (JSON list of issues).
+ * Returns undefined if the output isn't a JSON list (e.g. ansible-lint failed before linting).
+ */
+function parseAnsibleLintOutput(output: string): Finding[] | undefined {
+    let issues: CodeclimateIssue[];
+    try {
+        issues = JSON.parse(output.trim() || "[]");
+    } catch (error) {
+        console.error("Error parsing ansible-lint codeclimate output: ", error);
+        return undefined;
+    }
+    if (!Array.isArray(issues)) {
+        return undefined;
+    }
+
+    return issues.map(issue => {
+        const begin = issue.location?.positions?.begin ?? issue.location?.lines?.begin;
+        const line = typeof begin === 'number' ? begin : begin?.line ?? 1;
+        const column = typeof begin === 'object' ? begin.column ?? 1 : 1;
+        return {
+            tool: 'ansible-lint' as FindingTool,
+            rule: issue.check_name || "",
+            severity: CODECLIMATE_SEVERITIES[issue.severity || ""] || 'error',
+            line,
+            column,
+            message: issue.description || issue.check_name || "",
+        };
+    });
+}
+
+/**
+ * Converts Yamale validation errors into findings, with a rule derived from the kind of error (e.g. required-field, enum).
+ * Messages keep the Yamale key path: "<key_path>: <error_message>".
+ */
+function yamaleFindings(errors: YamaleError[]): Finding[] {
+    return errors.map(e => {
+        let rule = 'constraint';
+        if (e.message === "Required field missing") {
+            rule = 'required-field';
+        } else if (e.message === "Unexpected element") {
+            rule = 'unexpected-element';
+        } else if (e.message.startsWith("YAML syntax error")) {
+            rule = 'syntax';
+        } else if (/ not in \(/.test(e.message)) {
+            rule = 'enum';
+        } else if (/ is not a /.test(e.message)) {
+            rule = 'type';
+        }
+        return {
+            tool: 'yamale' as FindingTool,
+            rule,
+            severity: 'error' as FindingSeverity,
+            line: e.start.line + 1,
+            column: e.start.character + 1,
+            endLine: e.end.line + 1,
+            endColumn: e.end.character + 1,
+            message: e.path ? `${e.path}: ${e.message}` : e.message,
+        };
+    });
+}
+
+/**
+ * Formats findings as text, one per line: "line:column [rule] severity: message".
+ */
+function formatFindings(findings: Finding[]): string {
+    return findings.map(f => `${f.line}:${f.column} ${f.rule ? `[${f.rule}] ` : ""}${f.severity}: ${f.message}`).join('\n');
+}
+
+/**
+ * Reports a linter that failed without output that could be parsed (e.g. a configuration error or a Python traceback),
+ * so it doesn't show as passed. The message carries the end of its stderr.
+ */
+function lintFailureFinding(tool: FindingTool, result: LintCommandResult): Finding {
+    const details = (result.stderr.trim() || result.stdout.trim()).split('\n').slice(-10).join('\n');
+    return {
+        tool,
+        rule: 'lint-failure',
+        severity: 'error',
+        line: 1,
+        column: 1,
+        message: `${tool} failed with exit code ${result.exitCode}${details ? `: ${details}` : ""}`,
+    };
+}
+
+/**
+ * Converts the result of a yamllint run into findings; a non-zero exit without any parsable finding is reported as a lint failure.
+ */
+function yamlLintFindings(result: LintCommandResult): Finding[] {
+    const findings = parseYamlLintOutput(result.stdout);
+    return result.exitCode !== 0 && findings.length === 0 ? [lintFailureFinding('yamllint', result)] : findings;
+}
+
+/**
+ * Converts the result of an ansible-lint run into findings; output that isn't codeclimate JSON, or a non-zero exit without any issue,
+ * is reported as a lint failure.
+ */
+function ansibleLintFindings(result: LintCommandResult): Finding[] {
+    const findings = parseAnsibleLintOutput(result.stdout);
+    return !findings || (result.exitCode !== 0 && findings.length === 0) ? [lintFailureFinding('ansible-lint', result)] : findings;
+}
+
+/**
+ * Runs a lint command & resolves with its exit code & output (linters exit with a non-zero code when they report findings).
+ * Content is piped through stdin when given. Resolves with undefined if the command could not be found.
+ */
+function runLintCommand(command: string, content?: string): Promise<LintCommandResult | undefined> {
+    return new Promise<LintCommandResult | undefined>((resolve) => {
+        const child = exec(command, (error: any, stdout: string, stderr: string) => {
+            if (error && !stdout) {
+                console.error(`Error running ${command}: `, stderr || error.message);
+            }
+            // exit code 127: command not found
+            if (error?.code === 127) {
+                resolve(undefined);
+                return;
+            }
+            resolve({ exitCode: typeof error?.code === 'number' ? error.code : error ? 1 : 0, stdout, stderr });
+        });
+        if (content !== undefined) {
+            child.stdin?.end(content);
+        }
+    });
+}
+
+/**
+ * Runs yamllint on a vars file (or on the given content through stdin) in parsable format.
+ * Returns undefined if yamllint could not be found; if it fails without parsable output, a lint-failure finding is returned.
+ */
+async function runYamlLint(filePath: string, content?: string): Promise<Finding[] | undefined> {
+    const yamlLintPath = vscode.workspace.getConfiguration('nac-copilot').get<string>('yamlLintPath');
+    const result = await runLintCommand(`"${yamlLintPath}" -f parsable ${content !== undefined ? "-" : `"${filePath}"`}`, content);
+    return result === undefined ? undefined : yamlLintFindings(result);
+}
+
+/**
+ * Runs ansible-lint on a vars file in codeclimate format.
+ * Returns undefined if ansible-lint could not be found; if it fails without parsable output, a lint-failure finding is returned.
+ */
+async function runAnsibleLint(filePath: string): Promise<Finding[] | undefined> {
+    const ansibleLintPath = vscode.workspace.getConfiguration('nac-copilot').get<string>('ansibleLintPath');
+    const result = await runLintCommand(`"${ansibleLintPath}" -f codeclimate "${filePath}"`);
+    return result === undefined ? undefined : ansibleLintFindings(result);
+}
+
+export { parseYamlLintOutput, parseAnsibleLintOutput, yamlLintFindings, ansibleLintFindings, yamaleFindings, formatFindings, runLintCommand, runYamlLint, runAnsibleLint };
@@ -0,0 +1,84 @@
+// BM25 tuning parameters (standard Okapi defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// common English words that carry no signal for workflow identification
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or',
+    'that', 'the', 'this', 'to', 'with', 'all', 'any', 'can', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'please',
+]);
+
+// in-memory BM25 index over a list of documents (document ids are their positions in the indexed list)
+export interface KeywordIndex {
+    documentFrequencies: Map<string, number>;
+    termFrequencies: Map<string, number>[];
+    documentLengths: number[];
+    averageLength: number;
+}
+
+/**
+ * Splits text into lowercase alphanumeric terms, treating underscores, dashes, dots & slashes as separators.
+ * e.g. "delete_tags_manager_playbook.yml" -> ["delete", "tags", "manager", "playbook", "yml"]
+ */
+function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 0 && !STOPWORDS.has(t));
+}
+
+/**
+ * Builds a BM25 keyword index over the given document texts.
+ */
+function buildKeywordIndex(texts: string[]): KeywordIndex {
+    const documentFrequencies = new Map<string, number>();
+    const termFrequencies: Map<string, number>[] = [];
+    const documentLengths: number[] = [];
+
+    for (const text of texts) {
+        const terms = tokenize(text);
+        const frequencies = new Map<string, number>();
+        for (const t of terms) {
+            frequencies.set(t, (frequencies.get(t) || 0) + 1);
+        }
+        for (const t of frequencies.keys()) {
+            documentFrequencies.set(t, (documentFrequencies.get(t) || 0) + 1);
+        }
+        termFrequencies.push(frequencies);
+        documentLengths.push(terms.length);
+    }
+
+    const averageLength = documentLengths.length ? documentLengths.reduce((sum, l) => sum + l, 0) / documentLengths.length : 0;
+    return { documentFrequencies, termFrequencies, documentLengths, averageLength };
+}
+
+/**
+ * Scores every indexed document against the query using BM25.
+ * Returns top-K [document id, score] pairs with a positive score, best first.
+ */
+function searchKeywordIndex(index: KeywordIndex, query: string, k: number, filter?: (id: number) => boolean): [number, number][] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const totalDocuments = index.termFrequencies.length;
+    const scores: [number, number][] = [];
+
+    for (let id = 0; id < totalDocuments; id++) {
+        if (filter && !filter(id)) {
+            continue;
+        }
+        let score = 0;
+        for (const t of queryTerms) {
+            const frequency = index.termFrequencies[id].get(t);
+            if (!frequency) {
+                continue;
+            }
+            const documentFrequency = index.documentFrequencies.get(t) || 0;
+            const idf = Math.log(1 + (totalDocuments - documentFrequency + 0.5) / (documentFrequency + 0.5));
+            const lengthNorm = 1 - B + B * (index.documentLengths[id] / (index.averageLength || 1));
+            score += idf * (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm);
+        }
+        if (score > 0) {
+            scores.push([id, score]);
+        }
+    }
+
+    return scores.sort((a, b) => b[1] - a[1]).slice(0, k);
+}
+
+export { tokenize, buildKeywordIndex, searchKeywordIndex };
@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import fsPromises from 'fs/promises';
+import { JobEvent, JobEventData, JobEventResult } from './playbookRunner.js';
+
+// result of a task on one host
+export type TaskStatus = 'ok' | 'changed' | 'failed' | 'skipped' | 'unreachable';
+
+export interface HostTaskResult {
+    host: string;
+    status: TaskStatus;
+    durationSeconds?: number;
+    message?: string;
+}
+
+// task of a playbook run with its results per host (status is the worst host result)
+export interface TaskSummary {
+    name: string;
+    action: string;
+    play: string;
+    status: TaskStatus;
+    durationSeconds?: number;
+    hosts: HostTaskResult[];
+}
+
+// PLAY RECAP line of a host
+export interface HostRecap {
+    host: string;
+    ok: number;
+    changed: number;
+    unreachable: number;
+    failed: number;
+    skipped: number;
+    rescued: number;
+    ignored: number;
+}
+
+// summary of a playbook run built from ansible-runner job events, with the logs it wrote
+export interface PlaybookSummary {
+    playbook: string;
+    varsFile: string;
+    checkMode: boolean;
+    status: 'successful' | 'failed' | 'cancelled';
+    durationSeconds: number;
+    tasks: TaskSummary[];
+    recap: HostRecap[];
+    ansibleLogPath: string;
+    // 0-based line of each task's "TASK [name]" banner in the Ansible log, read once when the summary is built
+    taskLogLines: { [taskName: string]: number };
+    catcLogPath: string;
+}
+
+// node of the playbook results tree
+type PlaybookResultsNode =
+    { kind: 'group', label: 'recap' | 'tasks' | 'logs' } |
+    { kind: 'recap', recap: HostRecap } |
+    { kind: 'task', task: TaskSummary } |
+    { kind: 'host', task: TaskSummary, result: HostTaskResult } |
+    { kind: 'log', label: string, logPath: string };
+
+// ansible-runner events reporting a task result on a host, mapped to the task status (runner_on_ok is ok or changed)
+const RESULT_EVENTS: { [event: string]: TaskStatus } = {
+    'runner_on_ok': 'ok',
+    'runner_on_failed': 'failed',
+    'runner_on_skipped': 'skipped',
+    'runner_on_unreachable': 'unreachable',
+};
+
+// task statuses from best to worst, used to pick a task's overall status
+const STATUS_ORDER: TaskStatus[] = ['skipped', 'ok', 'changed', 'failed', 'unreachable'];
+
+// tree icon per task status
+const STATUS_ICONS: { [status in TaskStatus]: vscode.ThemeIcon } = {
+    'ok': new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    'changed': new vscode.ThemeIcon('diff-modified', new vscode.ThemeColor('charts.yellow')),
+    'failed': new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed')),
+    'skipped': new vscode.ThemeIcon('debug-step-over', new vscode.ThemeColor('testing.iconSkipped')),
+    'unreachable': new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('testing.iconFailed')),
+};
+
+// global state variables shared across playbook results functions
+let summary: PlaybookSummary | undefined;
+const treeChanged = new vscode.EventEmitter<PlaybookResultsNode | undefined>();
+
+/**
+ * Registers the "Playbook Results" tree view showing the summary of the last playbook run.
+ */
+function registerPlaybookResults(context: vscode.ExtensionContext) {
+    context.subscriptions.push(vscode.window.registerTreeDataProvider('nac-playbook-results', { getTreeItem, getChildren, onDidChangeTreeData: treeChanged.event }));
+    context.subscriptions.push(treeChanged);
+}
+
+/**
+ * Shows the summary of a playbook run in the Playbook Results view.
+ */
+async function showPlaybookSummary(playbookSummary: PlaybookSummary) {
+    summary = playbookSummary;
+    treeChanged.fire(undefined);
+    await vscode.commands.executeCommand('nac-playbook-results.focus');
+}
+
+/**
+ * Builds per-task results & the PLAY RECAP from ansible-runner job events (artifacts/<ident>/job_events).
+ * Loop items are reported by their task's runner_on_* event, so runner_item_on_* events are not counted separately.
+ */
+function summarizeJobEvents(events: JobEvent[]): { tasks: TaskSummary[], recap: HostRecap[] } {
+    const tasks = new Map<string, TaskSummary>();
+    let recap: HostRecap[] = [];
+
+    for (const event of events) {
+        const data: JobEventData = event.event_data || {};
+        if (event.event === 'playbook_on_task_start') {
+            tasks.set(data.task_uuid || data.uuid || "", { name: data.task || data.name || "", action: data.task_action || "", play: data.play || "", status: 'skipped', hosts: [] });
+        } else if (event.event in RESULT_EVENTS) {
+            const task = tasks.get(data.task_uuid || "");
+            if (!task) {
+                continue;
+            }
+            let status = RESULT_EVENTS[event.event];
+            if (status === 'ok' && data.res?.changed) {
+                status = 'changed';
+            }
+            // failures of tasks with ignore_errors don't fail the play
+            if (status === 'failed' && data.ignore_errors) {
+                status = 'ok';
+            }
+            task.hosts.push({ host: data.host || "", status, durationSeconds: eventDuration(data), message: status === 'failed' || status === 'unreachable' ? resultMessage(data.res) : undefined });
+        } else if (event.event === 'playbook_on_stats') {
+            recap = playRecap(data);
+        }
+    }
+
+    // tasks that never ran on a host (e.g. skipped by a "when" on the play) are left out
+    return {
+        tasks: [...tasks.values()].filter(t => t.hosts.length > 0).map(t => ({
+            ...t,
+            status: t.hosts.reduce<TaskStatus>((worst, h) => STATUS_ORDER.indexOf(h.status) > STATUS_ORDER.indexOf(worst) ? h.status : worst, 'skipped'),
+            durationSeconds: Math.max(0, ...t.hosts.map(h => h.durationSeconds ?? 0)) || undefined,
+        })),
+        recap,
+    };
+}
+
+/**
+ * Returns duration of a task on a host from a job event (ansible-runner reports it in seconds, else from start & end times).
+ */
+function eventDuration(data: JobEventData): number | undefined {
+    if (typeof data.duration === 'number') {
+        return data.duration;
+    }
+    const start = Date.parse(data.start || "");
+    const end = Date.parse(data.end || "");
+    return isNaN(start) || isNaN(end) ? undefined : (end - start) / 1000;
+}
+
+/**
+ * Returns the error message of a failed module result: msg, else module stderr / stdout.
+ */
+function resultMessage(res: JobEventResult | undefined): string {
+    if (!res) {
+        return "";
+    }
+    const message = res.msg || res.module_stderr || res.stderr || res.module_stdout || res.stdout || "";
+    return typeof message === 'string' ? message.trim() : JSON.stringify(message);
+}
+
+/**
+ * Builds PLAY RECAP lines from a playbook_on_stats event (counts per host keyed by stat, "dark" being unreachable hosts).
+ */
+function playRecap(data: JobEventData): HostRecap[] {
+    const stats: { [key in keyof Omit<HostRecap, 'host'>]: 'ok' | 'changed' | 'dark' | 'failures' | 'skipped' | 'rescued' | 'ignored' } = {
+        ok: 'ok', changed: 'changed', unreachable: 'dark', failed: 'failures', skipped: 'skipped', rescued: 'rescued', ignored: 'ignored',
+    };
+    const hosts = new Set(Object.values(stats).flatMap(stat => Object.keys(data[stat] || {})));
+    return [...hosts].sort().map(host => {
+        const recap = { host } as HostRecap;
+        for (const [key, stat] of Object.entries(stats)) {
+            recap[key as keyof typeof stats] = data[stat]?.[host] || 0;
+        }
+        return recap;
+    });
+}
+
+/**
+ * Maps each task name to the 0-based line of its first "TASK [name]" banner in the Ansible log content.
+ */
+function taskLogLines(content: string): { [taskName: string]: number } {
+    const lines: { [taskName: string]: number } = {};
+    content.split('\n').forEach((line, i) => {
+        const match = line.match(/^TASK \[(.*)\]/);
+        if (match && !(match[1] in lines)) {
+            lines[match[1]] = i;
+        }
+    });
+    return lines;
+}
+
+/**
+ * Reads the task banners of an Ansible log (see taskLogLines), or none if the log can't be read.
+ */
+async function readTaskLogLines(logPath: string): Promise<{ [taskName: string]: number }> {
+    try {
+        return taskLogLines(await fsPromises.readFile(logPath, 'utf8'));
+    } catch (error) {
+        console.error("Error reading Ansible log for task lines: ", error);
+        return {};
+    }
+}
+
+function formatDuration(seconds: number | undefined): string {
+    return seconds === undefined ? "" : `${seconds.toFixed(seconds < 10 ? 2 : 1)}s`;
+}
+
+function getTreeItem(node: PlaybookResultsNode): vscode.TreeItem {
+    if (node.kind === 'group') {
+        const labels = { recap: "PLAY RECAP", tasks: "Tasks", logs: "Logs" };
+        const item = new vscode.TreeItem(labels[node.label], vscode.TreeItemCollapsibleState.Expanded);
+        if (node.label === 'tasks' && summary) {
+            item.description = `${summary.playbook} (${summary.checkMode ? "check mode, " : ""}${summary.status}, ${formatDuration(summary.durationSeconds)})`;
+        }
+        return item;
+    }
+
+    if (node.kind === 'recap') {
+        const r = node.recap;
+        const item = new vscode.TreeItem(r.host, vscode.TreeItemCollapsibleState.None);
+        item.description = `ok=${r.ok} changed=${r.changed} unreachable=${r.unreachable} failed=${r.failed} skipped=${r.skipped} rescued=${r.rescued} ignored=${r.ignored}`;
+        item.iconPath = STATUS_ICONS[r.unreachable > 0 ? 'unreachable' : r.failed > 0 ? 'failed' : r.changed > 0 ? 'changed' : 'ok'];
+        return item;
+    }
+
+    if (node.kind === 'task') {
+        const t = node.task;
+        const item = new vscode.TreeItem(t.name || t.action, t.hosts.length > 1 || t.hosts.some(h => h.message) ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        item.description = `${t.status}${t.durationSeconds !== undefined ? ` · ${formatDuration(t.durationSeconds)}` : ""}`;
+        item.tooltip = `${t.play ? `Play: ${t.play}\n` : ""}Task: ${t.name}\nModule: ${t.action}`;
+        item.iconPath = STATUS_ICONS[t.status];
+        if (summary) {
+            const line = summary.taskLogLines[t.name] ?? 0;
+            item.command = { command: 'vscode.open', title: "Show in Ansible Log", arguments: [vscode.Uri.file(summary.ansibleLogPath), { selection: new vscode.Range(line, 0, line, 0) }] };
+        }
+        return item;
+    }
+
+    if (node.kind === 'host') {
+        const h = node.result;
+        const item = new vscode.TreeItem(h.message ? `${h.host}: ${h.message.split('\n')[0]}` : h.host, vscode.TreeItemCollapsibleState.None);
+        item.description = `${h.status}${h.durationSeconds !== undefined ? ` · ${formatDuration(h.durationSeconds)}` : ""}`;
+        item.tooltip = h.message || undefined;
+        item.iconPath = STATUS_ICONS[h.status];
+        return item;
+    }
+
+    const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+    item.description = vscode.workspace.asRelativePath(node.logPath, false);
+    item.iconPath = new vscode.ThemeIcon('output');
+    item.command = { command: 'vscode.open', title: "Open Log", arguments: [vscode.Uri.file(node.logPath)] };
+    return item;
+}
+
+function getChildren(node?: PlaybookResultsNode): PlaybookResultsNode[] {
+    if (!summary) {
+        return [];
+    }
+    if (!node) {
+        return [
+            ...(summary.recap.length > 0 ? [{ kind: 'group', label: 'recap' } as PlaybookResultsNode] : []),
+            { kind: 'group', label: 'tasks' },
+            { kind: 'group', label: 'logs' },
+        ];
+    }
+    if (node.kind === 'group' && node.label === 'recap') {
+        return summary.recap.map(recap => ({ kind: 'recap', recap }));
+    }
+    if (node.kind === 'group' && node.label === 'tasks') {
+        return summary.tasks.map(task => ({ kind: 'task', task }));
+    }
+    if (node.kind === 'group') {
+        return [
+            { kind: 'log', label: "ansible_log.log", logPath: summary.ansibleLogPath },
+            { kind: 'log', label: "dnac_log.log", logPath: summary.catcLogPath },
+        ];
+    }
+    if (node.kind === 'task') {
+        return node.task.hosts.map(result => ({ kind: 'host', task: node.task, result }));
+    }
+    return [];
+}
+
+export { registerPlaybookResults, showPlaybookSummary, summarizeJobEvents, taskLogLines, readTaskLogLines };
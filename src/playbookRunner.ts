@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import * as path from 'path';
+import { spawn, exec, ChildProcess } from 'child_process';
+
+// outcome of an ansible-playbook process
+export interface PlaybookProcessResult {
+    exitCode: number | null;
+    cancelled: boolean;
+    error?: string;
+    durationSeconds: number;
+}
+
+// options for running an ansible-playbook process
+export interface PlaybookProcessOptions {
+    env: NodeJS.ProcessEnv;
+    logPath: string;
+    outputChannel: vscode.OutputChannel;
+    progress?: vscode.Progress<{ message?: string }>;
+    token?: vscode.CancellationToken;
+}
+
+// ansible-playbook run on a vars file, through ansible-runner so its job events can be summarized
+export interface PlaybookRunOptions extends PlaybookProcessOptions {
+    ansiblePlaybookPath: string;
+    hostsFilePath: string;
+    playbookFilePath: string;
+    varsFilePath: string;
+    extraArgs?: string[];
+}
+
+// counts per host of a PLAY RECAP stat
+export type HostCounts = { [host: string]: number };
+
+// module result of a task on a host (only the fields summarized after a run)
+export interface JobEventResult {
+    changed?: boolean;
+    msg?: unknown;
+    module_stderr?: string;
+    stderr?: string;
+    module_stdout?: string;
+    stdout?: string;
+}
+
+// event_data of an ansible-runner job event; which fields are set depends on the event
+// (task start & runner_on_* events describe a task, playbook_on_stats carries the PLAY RECAP counts, "dark" being unreachable hosts)
+export interface JobEventData {
+    uuid?: string;
+    task_uuid?: string;
+    task?: string;
+    name?: string;
+    task_action?: string;
+    play?: string;
+    host?: string;
+    res?: JobEventResult;
+    ignore_errors?: boolean;
+    duration?: number;
+    start?: string;
+    end?: string;
+    ok?: HostCounts;
+    changed?: HostCounts;
+    dark?: HostCounts;
+    failures?: HostCounts;
+    skipped?: HostCounts;
+    rescued?: HostCounts;
+    ignored?: HostCounts;
+}
+
+// ansible-runner job event (artifacts/<ident>/job_events/<counter>-<uuid>.json)
+export interface JobEvent {
+    counter?: number;
+    event: string;
+    event_data?: JobEventData;
+}
+
+// outcome of a playbook run, with the ansible-runner job events (empty if ansible-playbook had to be run directly)
+export interface PlaybookRunResult extends PlaybookProcessResult {
+    events: JobEvent[];
+}
+
+// number of ansible-runner artifact folders kept in .nac/runner
+const MAX_RUNNER_ARTIFACTS = 10;
+
+// time given to ansible to stop after SIGTERM before its process tree is killed
+const KILL_TIMEOUT_MS = 5000;
+
+/**
+ * Runs ansible-playbook (or any command) with stdout & stderr streamed into the output channel and the log file as they arrive,
+ * reporting the elapsed time as progress. Cancelling the token terminates the whole process tree (ansible forks workers).
+ * Resolves once the process exits; never rejects.
+ */
+function runPlaybookProcess(command: string, args: string[], options: PlaybookProcessOptions): Promise<PlaybookProcessResult> {
+    const { outputChannel, progress, token } = options;
+    const startTime = Date.now();
+    const log = fs.createWriteStream(options.logPath, { flags: 'w' });
+
+    return new Promise<PlaybookProcessResult>((resolve) => {
+        // detached on POSIX so the process gets its own group, which is killed as a whole on cancellation
+        const child = spawn(command, args, { env: options.env, detached: process.platform !== 'win32' });
+        let cancelled = false;
+        let spawnError: string | undefined;
+
+        const write = (chunk: Buffer) => {
+            const text = chunk.toString();
+            outputChannel.append(text);
+            log.write(text);
+        };
+        child.stdout?.on('data', write);
+        child.stderr?.on('data', write);
+
+        progress?.report({ message: "Elapsed: 0:00" });
+        const timer = setInterval(() => progress?.report({ message: `Elapsed: ${formatElapsed(Date.now() - startTime)}` }), 1000);
+
+        const cancellation = token?.onCancellationRequested(() => {
+            cancelled = true;
+            outputChannel.appendLine("\n--- CANCELLED ---\nStopping ansible-playbook...");
+            killProcessTree(child);
+        });
+
+        child.on('error', (error) => {
+            spawnError = error.message;
+        });
+        child.on('close', (exitCode) => {
+            clearInterval(timer);
+            cancellation?.dispose();
+            if (spawnError) {
+                outputChannel.appendLine(`--- ERROR ---\n${spawnError}`);
+                log.write(`--- ERROR ---\n${spawnError}\n`);
+            }
+            // resolve once the log is flushed, so callers can read it right away
+            const durationSeconds = (Date.now() - startTime) / 1000;
+            log.end(() => resolve({ exitCode, cancelled, error: spawnError, durationSeconds }));
+        });
+    });
+}
+
+/**
+ * Runs a playbook on a vars file through ansible-runner (installed with ansible by envSetup), streaming its output like ansible-playbook,
+ * and reads the job events it records in .nac/runner/artifacts. Falls back to running ansible-playbook directly if ansible-runner is missing.
+ * On cancellation ansible-runner receives SIGTERM first, which makes it stop the playbook it started.
+ */
+async function runPlaybook(options: PlaybookRunOptions): Promise<PlaybookRunResult> {
+    const playbookArgs = ['--extra-vars', `@${options.varsFilePath}`, ...options.extraArgs || []];
+    const privateDataDir = `${vscode.workspace.rootPath}/.nac/runner`;
+    const ident = new Date().toISOString().replace(/[:.]/g, '-');
+    await fsPromises.mkdir(privateDataDir, { recursive: true });
+    // keep run artifacts out of version control (.nac/bindings.json is meant to be committed)
+    if (!fs.existsSync(path.join(privateDataDir, '.gitignore'))) {
+        await fsPromises.writeFile(path.join(privateDataDir, '.gitignore'), "*\n", 'utf8');
+    }
+
+    const runnerArgs = [
+        'run', privateDataDir,
+        '--playbook', options.playbookFilePath,
+        '--inventory', options.hostsFilePath,
+        // ansible-runner splits --cmdline like a shell (shlex), so each argument is double-quoted
+        '--cmdline', playbookArgs.map(a => `"${a.replace(/(["\\])/g, '\\$1')}"`).join(' '),
+        '--ident', ident,
+        '--rotate-artifacts', String(MAX_RUNNER_ARTIFACTS),
+    ];
+    const result = await runPlaybookProcess(ansibleRunnerPath(options.ansiblePlaybookPath), runnerArgs, options);
+    if (result.error && !result.cancelled) {
+        options.outputChannel.appendLine(`ansible-runner could not be run (${result.error}), running ansible-playbook without a results summary...\n`);
+        const direct = await runPlaybookProcess(options.ansiblePlaybookPath, ['-i', options.hostsFilePath, options.playbookFilePath, ...playbookArgs], options);
+        return { ...direct, events: [] };
+    }
+    return { ...result, events: await readJobEvents(path.join(privateDataDir, 'artifacts', ident)) };
+}
+
+/**
+ * Returns path of ansible-runner: next to the configured ansible-playbook (both are installed in the venv), else from PATH.
+ */
+function ansibleRunnerPath(ansiblePlaybookPath: string): string {
+    const sibling = path.join(path.dirname(ansiblePlaybookPath), process.platform === 'win32' ? 'ansible-runner.exe' : 'ansible-runner');
+    return path.isAbsolute(ansiblePlaybookPath) && fs.existsSync(sibling) ? sibling : 'ansible-runner';
+}
+
+/**
+ * Checks that parsed JSON has the shape of a job event: an event name & optional event_data object.
+ */
+function isJobEvent(value: unknown): value is JobEvent {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const { event, event_data, counter } = value as { [key: string]: unknown };
+    return typeof event === 'string'
+        && (event_data === undefined || (!!event_data && typeof event_data === 'object'))
+        && (counter === undefined || typeof counter === 'number');
+}
+
+/**
+ * Reads the job events of an ansible-runner run from its artifact folder, in the order they were emitted.
+ * Returns an empty list if the run recorded no events.
+ */
+async function readJobEvents(artifactDir: string): Promise<JobEvent[]> {
+    const eventsDir = path.join(artifactDir, 'job_events');
+    if (!fs.existsSync(eventsDir)) {
+        return [];
+    }
+
+    const events: JobEvent[] = [];
+    for (const file of await fsPromises.readdir(eventsDir)) {
+        if (!file.endsWith('.json')) {
+            continue;
+        }
+        try {
+            const event: unknown = JSON.parse(await fsPromises.readFile(path.join(eventsDir, file), 'utf8'));
+            if (isJobEvent(event)) {
+                events.push(event);
+            }
+        } catch (error) {
+            // events still being written when the run was cancelled
+            console.error(`Error reading ansible-runner job event ${file}: `, error);
+        }
+    }
+    return events.sort((a, b) => (a.counter ?? 0) - (b.counter ?? 0));
+}
+
+/**
+ * Terminates a process & its children: SIGTERM to the process group on POSIX (SIGKILL if it hasn't exited after KILL_TIMEOUT_MS),
+ * taskkill of the process tree on Windows.
+ */
+function killProcessTree(child: ChildProcess) {
+    if (!child.pid || child.exitCode !== null) {
+        return;
+    }
+    if (process.platform === 'win32') {
+        exec(`taskkill /pid ${child.pid} /T /F`);
+        return;
+    }
+
+    const signalGroup = (signal: NodeJS.Signals) => {
+        try {
+            process.kill(-child.pid!, signal);
+        } catch (error) {
+            // process group already gone, or the process isn't a group leader
+            child.kill(signal);
+        }
+    };
+    signalGroup('SIGTERM');
+    const forceKill = setTimeout(() => signalGroup('SIGKILL'), KILL_TIMEOUT_MS);
+    child.on('close', () => clearTimeout(forceKill));
+}
+
+/**
+ * Formats elapsed milliseconds as "m:ss" (or "h:mm:ss" for runs of an hour or more).
+ */
+function formatElapsed(milliseconds: number): string {
+    const totalSeconds = Math.floor(milliseconds / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor(totalSeconds / 60) % 60;
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export { runPlaybookProcess, runPlaybook, formatElapsed };
@@ -1,101 +1,287 @@
 import * as vscode from 'vscode';
 import fs from 'fs';
+import fsPromises from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
 import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 import { MemoryVectorStore } from "langchain/vectorstores/memory";
-import { pipeline } from '@xenova/transformers';
+import { Document } from "@langchain/core/documents";
+import { embeddings, EMBEDDING_MODEL } from './embeddings.js';
+import { KeywordIndex, buildKeywordIndex, searchKeywordIndex } from './keywordSearch.js';
+
+// kinds of workflow files indexed for RAG
+export type ChunkKind = 'readme' | 'schema' | 'playbook' | 'vars';
+
+// workflow file loaded from cloned GitHub repo (path is relative to the workflows directory)
+interface WorkflowFile {
+    kind: ChunkKind;
+    path: string;
+    content: string;
+}
 
 // global state variables shared across RAG functions
 export let workflows: string[] = [];
-let workflowToREADMEs: { [key: string]: string } = {};
+let workflowToFiles: { [key: string]: WorkflowFile[] } = {};
 
-// vector DB for RAG storage
+// vector DB for RAG storage & BM25 keyword index built over the same chunks (keyword document ids match chunkId metadata)
 let vectorDB: MemoryVectorStore | null = null;
+let keywordIndex: KeywordIndex | null = null;
+let indexedDocuments: Document[] = [];
+
+// reciprocal rank fusion constant (larger values flatten the contribution of top ranks)
+const RRF_K = 60;
+
+// share of a workflow candidate's confidence that comes from the LLM's answer (the rest comes from retrieval)
+const MODEL_VOTE_WEIGHT = 0.6;
+
+// workflow candidate with a confidence score between 0 and 1
+export interface WorkflowCandidate {
+    workflow: string;
+    score: number;
+}
+
+// on-disk RAG index format; bump version whenever chunking or embedding model changes
+const RAG_INDEX_VERSION = 2;
+
+interface ChunkMetadata {
+    workflow: string;
+    kind: ChunkKind;
+    path: string;
+}
+
+interface IndexedChunk {
+    text: string;
+    metadata: ChunkMetadata;
+    embedding: number[];
+}
+
+interface RAGIndexCache {
+    version: number;
+    model: string;
+    commitHash: string;
+    workflows: { [workflow: string]: { hash: string, chunks: IndexedChunk[] } };
+}
 
 /**
- * Indexes data for RAG (Step 1): chunks READMEs, embeds them, & stores in vector DB.
+ * Indexes data for RAG (Step 1): chunks READMEs, schemas, playbook task names & sample vars files, embeds them, & stores in vector DB.
+ * Embedded chunks are persisted to cachePath keyed by the cloned repo's commit hash & workflow file content hashes,
+ * so only workflows whose files changed are re-embedded and a warm start loads without embedding anything.
  */
-async function indexDataRAG() {
-    // chunk READMEs using LangChain Text Splitter
-    let chunks: { text: string, metadata: { workflow: string } }[] = [];
+async function indexDataRAG(cachePath: string = "", commitHash: string = "") {
+    const cache = cachePath ? await readRAGIndexCache(cachePath) : null;
+    const updatedCache: RAGIndexCache = { version: RAG_INDEX_VERSION, model: EMBEDDING_MODEL, commitHash, workflows: {} };
+
+    // if cloned repo has not changed since the index was written and every workflow is cached, the index only needs rewriting when chunks change
+    const unchangedRepo = !!cache && commitHash !== "" && cache.commitHash === commitHash && workflows.every(w => cache.workflows[w]);
+
+    // chunk workflow files using LangChain Text Splitter
+    let chunks: { text: string, metadata: ChunkMetadata }[] = [];
     const textSplitter = new RecursiveCharacterTextSplitter({chunkSize: 500, chunkOverlap: 100});
 
-    // loop through each workflow to chunk its README
+    // loop through each workflow to chunk its files (reusing cached embeddings where files are unchanged)
     for (const w of workflows) {
-        const readme = workflowToREADMEs[w];
-        if (readme) {
-            const readmeChunks = await textSplitter.splitText(readme);
-            // add chunks with workflow metadata
-            chunks.push(...readmeChunks.map((chunk: string) => ({
+        const files = workflowToFiles[w] || [];
+        const hash = hashWorkflowFiles(files);
+        const cached = reusableCacheEntry(cache, w, hash);
+        if (cached) {
+            updatedCache.workflows[w] = cached;
+            continue;
+        }
+
+        for (const file of files) {
+            // playbooks are indexed by task names only, everything else is split into chunks
+            const fileChunks = file.kind === 'playbook' ? [file.content] : await textSplitter.splitText(file.content);
+            // add chunks with workflow, file kind & path metadata
+            chunks.push(...fileChunks.map((chunk: string) => ({
                 text: chunk,
-                metadata: { workflow: w }
+                metadata: { workflow: w, kind: file.kind, path: file.path }
             })));
-        } else {
+        }
+
+        if (!files.some(file => file.kind === 'readme')) {
             // if no README found, add name of workflow as a single chunk
             console.log(`No README present for workflow: ${w}`);
             chunks.push({
                 text: `Workflow: ${w}`,
-                metadata: { workflow: w }
+                metadata: { workflow: w, kind: 'readme', path: `${w}/README.md` }
             });
         }
+        updatedCache.workflows[w] = { hash, chunks: [] };
     }
 
-    // retrieve embeddings
-    const embeddings = await retrieveEmbeddings();
+    // embed only new or changed chunks
+    if (chunks.length > 0) {
+        console.log(`Embedding ${chunks.length} new or changed chunks...`);
+        const vectors = await embeddings.embedDocuments(chunks.map(chunk => chunk.text));
+        chunks.forEach((chunk, i) => {
+            updatedCache.workflows[chunk.metadata.workflow].chunks.push({ ...chunk, embedding: vectors[i] });
+        });
+    } else {
+        console.log("Loaded RAG index from cache, no chunks to embed.");
+    }
 
-    // store embeddings in vector DB
-    vectorDB = await MemoryVectorStore.fromTexts(
-        chunks.map(chunk => chunk.text),
-        chunks.map(chunk => chunk.metadata),
-        embeddings,
-    );
+    // store embeddings in vector DB (shared embedding service only loads the model when something is embedded)
+    const indexedChunks = Object.values(updatedCache.workflows).flatMap(entry => entry.chunks);
+    indexedDocuments = indexedChunks.map((chunk, i) => new Document({ pageContent: chunk.text, metadata: { ...chunk.metadata, chunkId: i } }));
+    vectorDB = new MemoryVectorStore(embeddings);
+    await vectorDB.addVectors(indexedChunks.map(chunk => chunk.embedding), indexedDocuments);
+
+    // build keyword index alongside vector DB for hybrid retrieval
+    keywordIndex = buildKeywordIndex(indexedChunks.map(chunk => `${chunk.metadata.path} ${chunk.text}`));
+
+    // persist updated index for the next activation
+    if (cachePath && (chunks.length > 0 || !unchangedRepo)) {
+        try {
+            await fsPromises.mkdir(path.dirname(cachePath), { recursive: true });
+            await fsPromises.writeFile(cachePath, JSON.stringify(updatedCache), 'utf8');
+        } catch (error) {
+            console.error("Error writing RAG index cache: ", error);
+        }
+    }
 }
 
 /**
- * Retrieves embeddings using Xenova's all-MiniLM-L6-v2 model.
- * Returns an object with methods to embed documents and queries.
+ * Hashes a workflow's files to detect changes between the persisted RAG index and the cloned repo.
  */
-async function retrieveEmbeddings() {
-    const embedder = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
-    const embeddings = {
-        // function for embedding READMEs / documents
-        async embedDocuments(texts: string[]): Promise<number[][]> {
-            const results = [];
-            for (const t of texts) {
-                const output = await embedder(t, {pooling: 'mean', normalize: true});
-                results.push(Array.from(output.data));
-            }
-            return results;
-        },
+function hashWorkflowFiles(files: WorkflowFile[]): string {
+    return createHash('sha256').update(JSON.stringify(files)).digest('hex');
+}
+
+/**
+ * Returns a workflow's cached chunks & embeddings if they were indexed from the same files, otherwise undefined.
+ * The repo commit hash is deliberately not trusted on its own: workflow files may have been re-read since the cache was written.
+ */
+function reusableCacheEntry(cache: RAGIndexCache | null, workflow: string, hash: string): RAGIndexCache['workflows'][string] | undefined {
+    const cached = cache?.workflows[workflow];
+    return cached && cached.hash === hash ? cached : undefined;
+}
+
+/**
+ * Reads persisted RAG index from disk.
+ * Returns null if the cache is missing, unreadable, or was written by a different index version / embedding model.
+ */
+async function readRAGIndexCache(cachePath: string): Promise<RAGIndexCache | null> {
+    if (!fs.existsSync(cachePath)) {
+        return null;
+    }
+    try {
+        const cache: RAGIndexCache = JSON.parse(await fsPromises.readFile(cachePath, 'utf8'));
+        if (cache.version !== RAG_INDEX_VERSION || cache.model !== EMBEDDING_MODEL) {
+            return null;
+        }
+        return cache;
+    } catch (error) {
+        console.error("Error reading RAG index cache: ", error);
+        return null;
+    }
+}
+
+// relative weight of each chunk kind when ranking retrieved chunks
+export type ChunkKindWeights = { [kind in ChunkKind]?: number };
+
+// workflow identification favours README descriptions & playbook task names over raw schema / vars content
+const WORKFLOW_KIND_WEIGHTS: ChunkKindWeights = { readme: 1.0, playbook: 0.95, schema: 0.85, vars: 0.8 };
+
+/**
+ * Retrieves top-K chunks using hybrid retrieval: vector similarity & BM25 keyword rankings fused with reciprocal rank fusion.
+ * Each chunk's fused score is weighted by its kind; chunk kinds with no weight (or a weight of 0) are filtered out entirely.
+ * Returns top-K documents with their fused scores.
+ */
+async function searchChunks(userQuery: string, queryEmbedding: number[], k: number, weights: ChunkKindWeights): Promise<[Document, number][]> {
+    if (!vectorDB) {
+        return [];
+    }
+
+    // over-fetch from both retrievers so fusion can still fill top-K
+    const kindWeight = (doc: Document) => weights[doc.metadata.kind as ChunkKind] ?? 0;
+    const vectorResults = await vectorDB.similaritySearchVectorWithScore(queryEmbedding, k * 3, (doc: Document) => kindWeight(doc) > 0);
+    const keywordResults = keywordIndex ? searchKeywordIndex(keywordIndex, userQuery, k * 3, (id) => kindWeight(indexedDocuments[id]) > 0) : [];
+
+    // reciprocal rank fusion: sum 1 / (RRF_K + rank) over both rankings
+    const fusedScores = new Map<number, number>();
+    const addRanking = (chunkIds: number[]) => chunkIds.forEach((id, rank) => {
+        fusedScores.set(id, (fusedScores.get(id) || 0) + 1 / (RRF_K + rank + 1));
+    });
+    addRanking(vectorResults.map(([doc]) => doc.metadata.chunkId as number));
+    addRanking(keywordResults.map(([id]) => id));
+
+    return [...fusedScores.entries()]
+        .map(([id, score]): [Document, number] => [indexedDocuments[id], score * kindWeight(indexedDocuments[id])])
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, k);
+}
+
+/**
+ * Finds the workflow a prompt names literally: a "(workflow: <name>)" annotation, a playbook file name (e.g. "delete_tags_manager_playbook.yml") or a workflow directory name containing an underscore (e.g. "site_hierarchy").
+ * Single-word workflow names like "swim" are left to hybrid retrieval since they also appear in ordinary prose.
+ * Returns the named workflow, or an empty string if the prompt names none.
+ */
+function findNamedWorkflow(userQuery: string): string {
+    const query = userQuery.toLowerCase();
+
+    // explicit "(workflow: <name>)" annotation, e.g. from a workflow candidate follow-up
+    const annotated = query.match(/\(workflow:\s*([\w-]+)\)/);
+    if (annotated && workflows.includes(annotated[1])) {
+        return annotated[1];
+    }
 
-        // function for embedding a query
-        async embedQuery(text: string): Promise<number[]> {
-            const output = await embedder(text, {pooling: 'mean', normalize: true});
-            return Array.from(output.data);
+    // prefer the longest matching playbook so "delete_x_playbook.yml" wins over "x_playbook.yml"
+    let namedPlaybook = "";
+    let namedWorkflow = "";
+    for (const w of workflows) {
+        for (const file of workflowToFiles[w] || []) {
+            const fileName = file.path.split('/').pop() || "";
+            if (file.kind === 'playbook' && fileName.length > namedPlaybook.length && query.includes(fileName.toLowerCase())) {
+                namedPlaybook = fileName;
+                namedWorkflow = w;
+            }
         }
-    };
-    return embeddings;
+    }
+    if (namedWorkflow) {
+        return namedWorkflow;
+    }
+
+    // workflow directory names only count as whole words (underscores are word characters, so playbook names don't match)
+    const named = workflows
+        .filter(w => w.includes('_') && new RegExp(`\\b${w.toLowerCase()}\\b`).test(query))
+        .sort((a, b) => b.length - a.length);
+    return named.length > 0 ? named[0] : "";
 }
 
 /**
- * Retrieves and generates workflow using RAG (Step 2): embeds user query, retrieves top-K chunks using similarity search, & augments LLM with top chunks to retrieve relevant workflow.
- * Returns identified workflow as a string.
+ * Formats a retrieved chunk for an LLM prompt, labelled with its workflow, kind, and source file.
  */
-async function retrieveAndGenerateRAGWorkflow(userQuery: string, k: number = 5, request: vscode.ChatRequest, token: vscode.CancellationToken): Promise<string> {
+function formatChunk(doc: Document): string {
+    return `Workflow ${doc.metadata?.workflow || "unknown"}: \n(${doc.metadata?.kind || "readme"} - ${doc.metadata?.path || ""})\n${doc.pageContent}`;
+}
+
+/**
+ * Retrieves and generates workflow using RAG (Step 2): embeds user query, retrieves top-K chunks using hybrid vector & keyword search, & augments LLM with top chunks to retrieve relevant workflow.
+ * Chunk kinds can be filtered or re-weighted with weights (defaults to favouring READMEs & playbooks).
+ * Returns workflow candidates ranked by confidence, combining each workflow's share of the retrieval scores with the LLM's answer.
+ */
+async function retrieveAndGenerateRAGWorkflow(userQuery: string, k: number = 5, model: vscode.LanguageModelChat, token: vscode.CancellationToken, weights: ChunkKindWeights = WORKFLOW_KIND_WEIGHTS): Promise<WorkflowCandidate[]> {
     // ensure vector DB is initialized
     if (!vectorDB) {
-        return "";
+        return [];
+    }
+
+    // skip retrieval & LLM entirely if the user literally named a playbook file or workflow directory
+    const namedWorkflow = findNamedWorkflow(userQuery);
+    if (namedWorkflow) {
+        console.log("Workflow named in user prompt: ", namedWorkflow);
+        return [{ workflow: namedWorkflow, score: 1 }];
     }
 
     // embed user query 
-    const embeddings = await retrieveEmbeddings();
     const userQueryEmbedding = await embeddings.embedQuery(userQuery);
 
-    // retrieve top-K relevant chunks from vector DB using similarity search
-    const topKResults = await vectorDB.similaritySearchVectorWithScore(userQueryEmbedding, k);
+    // retrieve top-K relevant chunks using hybrid vector + keyword search
+    const topKResults = await searchChunks(userQuery, userQueryEmbedding, k, weights);
 
     // create prompt for LLM (user query + top-K retrieved chunks)
-    const topKChunks = topKResults.map((r: any) => r[0].pageContent);
-    const topKWorkflows = topKResults.map((r: any) => r[0].metadata?.workflow || "unknown");
+    const topKChunks = topKResults.map(r => formatChunk(r[0]));
+    const topKWorkflows = topKResults.map(r => r[0].metadata?.workflow || "unknown");
     console.log("Top K workflows: ", topKWorkflows);
 
     const prompt = `You are a helpful code assistant. Your job is to provide the user with YAML code for specific workflows in Catalyst Center. Here is an example of what you should do:
@@ -104,7 +290,7 @@ async function retrieveAndGenerateRAGWorkflow(userQuery: string, k: number = 5,
     First, you must figure out which workflow to use based on the user's request. Here is an overview of the top workflows corresponding to the user's request and some descriptions of each workflow. 
     The modules/workflows are clearly depicted as "Workflow <X>" where X is the name of the workflow right right before the description. 
     Anything not written as "Workflow <X>" and on its own line is not a workflow. \n\n
-    \n ${topKChunks.map((chunk, i) => `Workflow ${topKWorkflows[i]}: \n${chunk}`).join("\n\n")} \n
+    \n ${topKChunks.join("\n\n")} \n
 
     You must choose the workflow that best matches the user's request. Here is the full list of valid workflow names (choose only one, exactly as written): 
     ${workflows.map(w => `- ${w}`).join('\n')}
@@ -124,7 +310,7 @@ async function retrieveAndGenerateRAGWorkflow(userQuery: string, k: number = 5,
 
     // send request to Copilot LLM model
     try {
-        const chatResponse = await request.model.sendRequest(messages, {}, token);
+        const chatResponse = await model.sendRequest(messages, {}, token);
         let result = '';
         for await (const fragment of chatResponse.text) {
             result += fragment;
@@ -135,14 +321,46 @@ async function retrieveAndGenerateRAGWorkflow(userQuery: string, k: number = 5,
     }
 
     console.log("Identified workflow: ", identifiedWorkflow);
-    return identifiedWorkflow;
+    return rankWorkflowCandidates(topKResults, identifiedWorkflow.toLowerCase().trim());
+}
+
+/**
+ * Ranks workflow candidates from retrieved chunks & the LLM's answer.
+ * Retrieval score of a workflow is its share of the fused scores of the top-K chunks; a valid LLM answer adds MODEL_VOTE_WEIGHT to its workflow.
+ * Returns candidates sorted by score (highest first).
+ */
+function rankWorkflowCandidates(topKResults: [Document, number][], modelAnswer: string): WorkflowCandidate[] {
+    const retrievalScores = new Map<string, number>();
+    for (const [doc, score] of topKResults) {
+        const w = doc.metadata?.workflow;
+        if (w) {
+            retrievalScores.set(w, (retrievalScores.get(w) || 0) + score);
+        }
+    }
+    const totalRetrievalScore = [...retrievalScores.values()].reduce((sum, score) => sum + score, 0);
+    const validAnswer = workflows.includes(modelAnswer);
+
+    // if LLM answer is invalid, retrieval alone decides the ranking
+    const retrievalWeight = validAnswer ? 1 - MODEL_VOTE_WEIGHT : 1;
+    const candidates = new Map<string, number>();
+    for (const [w, score] of retrievalScores) {
+        candidates.set(w, totalRetrievalScore ? retrievalWeight * score / totalRetrievalScore : 0);
+    }
+    if (validAnswer) {
+        candidates.set(modelAnswer, (candidates.get(modelAnswer) || 0) + MODEL_VOTE_WEIGHT);
+    }
+
+    return [...candidates.entries()]
+        .map(([workflow, score]) => ({ workflow, score }))
+        .sort((a, b) => b.score - a.score);
 }
 
 /**
  * Retrieves and generates general text response using RAG (Step 2): embeds user query, retrieves top-K chunks using similarity search, & augments LLM with top chunks to generate relevant response.
+ * All chunk kinds are searched with equal weight unless weights are provided.
  * Returns response to user as a string.
  */
-async function retrieveAndGenerateRAGGeneral(userQuery: string, k: number = 5, request: vscode.ChatRequest, token: vscode.CancellationToken): Promise<string> {
+async function retrieveAndGenerateRAGGeneral(userQuery: string, k: number = 5, request: vscode.ChatRequest, token: vscode.CancellationToken, weights: ChunkKindWeights = { readme: 1, schema: 1, playbook: 1, vars: 1 }): Promise<string> {
     // ensure vector DB is initialized
     if (!vectorDB) {
         return "";
@@ -157,14 +375,13 @@ async function retrieveAndGenerateRAGGeneral(userQuery: string, k: number = 5, r
     console.log("Context files content: ", contextFile);
 
     // embed user query 
-    const embeddings = await retrieveEmbeddings();
     const userQueryEmbedding = await embeddings.embedQuery(userQuery);
 
-    // retrieve top-K relevant chunks from vector DB using similarity search
-    const topKResults = await vectorDB.similaritySearchVectorWithScore(userQueryEmbedding, k);
+    // retrieve top-K relevant chunks using hybrid vector + keyword search
+    const topKResults = await searchChunks(userQuery, userQueryEmbedding, k, weights);
 
     // create prompt for LLM (user query + top-K retrieved chunks)
-    const topKChunks = topKResults.map((r: any) => r[0].pageContent);
+    const topKChunks = topKResults.map(r => formatChunk(r[0])).join("\n\n");
 
     const prompt = `You are a helpful assistant. Your job is to answer any questions the user may have about Catalyst Center, Ansible, or anything generic that relates to whatever the user asks. 
     Try to be concise in your response to not overload the user with information. Format the response so it is easier to read.
@@ -197,36 +414,73 @@ async function retrieveAndGenerateRAGGeneral(userQuery: string, k: number = 5, r
 }
 
 /**
- * Fetches README files from cloned GitHub repository in user's workspace.
- * Populates global state variables with workflow names and corresponding README content.
+ * Fetches workflow files from cloned GitHub repository in user's workspace: README, schemas, playbooks, and sample vars files.
+ * Populates global state variables with workflow names and corresponding files.
+ * Files already fetched for the same workflows are kept unless force is set (e.g. after the repo was re-cloned).
  */
-async function fetchREADMEFiles() {
+async function fetchWorkflowFiles(force: boolean = false) {
     // retrieve all workflows from cloned GitHub repo in user's workspace
     const workflowsDir = `${vscode.workspace.rootPath}/ai-assistant-catalyst-center-ansible-iac/workflows/`;
     const workflowNames = await fs.readdirSync(workflowsDir);
     console.log(`Identified ${workflowNames.length} workflows in cloned GitHub repo`);
 
-    // check if fetched READMEs includes all repo workflows
-    if (workflows.length !== 0 && workflowNames.every((w) => workflows.includes(w))) {
+    // check if fetched files includes all repo workflows
+    if (!force && workflows.length !== 0 && workflowNames.every((w) => workflows.includes(w))) {
         return;
     }
 
-    // else retrieve READMEs from cloned GitHub repo in user's workspace
+    // else retrieve files from cloned GitHub repo in user's workspace
     workflows = [];
+    workflowToFiles = {};
 
-    // for each workflow, retrieve README file content (if exists)
+    // for each workflow, retrieve README, schema, playbook & vars file content (if exists)
     for (const w of workflowNames) {
-        const readmeUri = await vscode.workspace.findFiles(`**/ai-assistant-catalyst-center-ansible-iac/workflows/${w}/README.md`);
-        if (readmeUri.length) {
-            const readme = (await vscode.workspace.fs.readFile(vscode.Uri.file(readmeUri[0].fsPath))).toString();
-
-            // add workflow & README to mapping
-            workflowToREADMEs[w] = readme;
-        } else {
-            workflowToREADMEs[w] = "";
+        const files: WorkflowFile[] = [];
+        const readmePath = path.join(workflowsDir, w, 'README.md');
+        if (fs.existsSync(readmePath)) {
+            files.push({ kind: 'readme', path: `${w}/README.md`, content: await fsPromises.readFile(readmePath, 'utf8') });
+        }
+
+        for (const f of listWorkflowFiles(workflowsDir, w, 'schema', /_schema\.ya?ml$/)) {
+            files.push({ kind: 'schema', path: `${w}/schema/${f}`, content: await fsPromises.readFile(path.join(workflowsDir, w, 'schema', f), 'utf8') });
+        }
+
+        for (const f of listWorkflowFiles(workflowsDir, w, 'playbook', /\.ya?ml$/)) {
+            const playbookContent = await fsPromises.readFile(path.join(workflowsDir, w, 'playbook', f), 'utf8');
+            files.push({ kind: 'playbook', path: `${w}/playbook/${f}`, content: summarizePlaybook(f, playbookContent) });
+        }
+
+        for (const f of listWorkflowFiles(workflowsDir, w, 'vars', /\.ya?ml$/)) {
+            files.push({ kind: 'vars', path: `${w}/vars/${f}`, content: await fsPromises.readFile(path.join(workflowsDir, w, 'vars', f), 'utf8') });
         }
+
+        // add workflow & files to mapping
+        workflowToFiles[w] = files;
         workflows.push(w);
     }
 }
 
-export { indexDataRAG, retrieveAndGenerateRAGWorkflow, retrieveAndGenerateRAGGeneral, fetchREADMEFiles };
\ No newline at end of file
+/**
+ * Lists file names in a workflow subdirectory (schema, playbook, vars) that match the given pattern.
+ * Returns an empty list if the subdirectory does not exist.
+ */
+function listWorkflowFiles(workflowsDir: string, workflow: string, subdirectory: string, pattern: RegExp): string[] {
+    const dir = path.join(workflowsDir, workflow, subdirectory);
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return fs.readdirSync(dir).filter(f => pattern.test(f)).sort();
+}
+
+/**
+ * Summarizes a playbook for RAG as its file name plus the names of its plays & tasks.
+ */
+function summarizePlaybook(fileName: string, content: string): string {
+    const taskNames = content.split('\n')
+        .map(line => line.match(/^\s*(?:-\s+)?name:\s*(.+)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(match => `- ${match[1].trim().replace(/^["']|["']$/g, '')}`);
+    return `Playbook ${fileName} tasks:\n${taskNames.join('\n')}`;
+}
+
+export { indexDataRAG, retrieveAndGenerateRAGWorkflow, retrieveAndGenerateRAGGeneral, fetchWorkflowFiles, hashWorkflowFiles, reusableCacheEntry };
\ No newline at end of file
@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import fsPromises from 'fs/promises';
+import { isVarsFile } from './bindings.js';
+import { ObjectRules, VarsFileObject, declaredObjects, referencedObjects, satisfies } from './references.js';
+import { findVarsFiles } from './reports.js';
+import { loadDependencyRules } from './taskOrdering.js';
+
+// objects declared & referenced by an analyzed vars file
+interface VarsFileIndex {
+    uri: vscode.Uri;
+    declared: VarsFileObject[];
+    referenced: VarsFileObject[];
+}
+
+// delay after the last edit of a vars file before its references are checked again
+const REINDEX_DELAY_MS = 500;
+
+// global state variables shared across reference analyzer functions
+let rules: ObjectRules = {};
+let collection: vscode.DiagnosticCollection | undefined;
+const varsFiles = new Map<string, VarsFileIndex>();
+const pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Registers the workspace reference analyzer: objects (sites, tags, device IPs, credentials) declared by the vars files in data/
+ * are indexed, references to objects no vars file declares are flagged as warnings, and go to definition jumps from a reference to its declaration.
+ */
+function registerReferenceAnalyzer(context: vscode.ExtensionContext) {
+    collection = vscode.languages.createDiagnosticCollection('nac-references');
+    context.subscriptions.push(collection);
+    context.subscriptions.push(vscode.languages.registerDefinitionProvider([{ language: 'yaml' }, { language: 'ansible' }], { provideDefinition }));
+
+    context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.contentChanges.length > 0 && isAnalyzed(event.document.uri)) {
+            scheduleUpdate(event.document.uri);
+        }
+    }));
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/data/**/*.{yml,yaml}');
+    watcher.onDidCreate(uri => scheduleUpdate(uri));
+    watcher.onDidChange(uri => scheduleUpdate(uri));
+    watcher.onDidDelete(uri => {
+        varsFiles.delete(uri.toString());
+        collection?.delete(uri);
+        publishDiagnostics();
+    });
+    context.subscriptions.push(watcher);
+
+    initialize(context.extensionPath);
+}
+
+/**
+ * Loads the object rules of task_dependencies.yml & indexes every vars file in data/.
+ */
+async function initialize(extensionRoot: string) {
+    rules = (await loadDependencyRules(extensionRoot)).objects;
+    try {
+        for (const uri of await findVarsFiles(['data'])) {
+            await indexFile(uri);
+        }
+    } catch (error) {
+        console.error("Error indexing vars file references: ", error);
+    }
+    publishDiagnostics();
+}
+
+/**
+ * Checks whether a vars file takes part in reference analysis: YAML files under data/.
+ * Vars files in data_deletion/ reference objects to delete, which usually exist only on Catalyst Center.
+ */
+function isAnalyzed(uri: vscode.Uri): boolean {
+    return uri.scheme === 'file' && /^data\/.+\.ya?ml$/.test(vscode.workspace.asRelativePath(uri, false));
+}
+
+/**
+ * Returns content of a vars file: unsaved editor content if it is open, else the file on disk.
+ */
+async function readVarsFile(uri: vscode.Uri): Promise<string> {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    return document ? document.getText() : await fsPromises.readFile(uri.fsPath, 'utf8');
+}
+
+async function indexFile(uri: vscode.Uri) {
+    try {
+        const content = await readVarsFile(uri);
+        varsFiles.set(uri.toString(), { uri, declared: declaredObjects(content, rules), referenced: referencedObjects(content, rules) });
+    } catch (error) {
+        console.error(`Error indexing references of ${uri.fsPath}: `, error);
+        varsFiles.delete(uri.toString());
+    }
+}
+
+/**
+ * Re-indexes a vars file after REINDEX_DELAY_MS without further changes, then re-checks references of every vars file
+ * (a declaration removed from one file can leave references in others dangling).
+ */
+function scheduleUpdate(uri: vscode.Uri) {
+    if (!isAnalyzed(uri)) {
+        return;
+    }
+    const key = uri.toString();
+    clearTimeout(pendingUpdates.get(key));
+    pendingUpdates.set(key, setTimeout(async () => {
+        pendingUpdates.delete(key);
+        await indexFile(uri);
+        publishDiagnostics();
+    }, REINDEX_DELAY_MS));
+}
+
+/**
+ * Returns the declarations satisfying a reference: declarations of the same name, else of a descendant site or an IP range containing it.
+ */
+function findDeclarations(reference: VarsFileObject): { uri: vscode.Uri, object: VarsFileObject }[] {
+    const declarations = [...varsFiles.values()].flatMap(f => f.declared.filter(d => d.kind === reference.kind).map(object => ({ uri: f.uri, object })));
+    const exact = declarations.filter(d => d.object.name === reference.name);
+    return exact.length > 0 ? exact : declarations.filter(d => satisfies(d.object.name, reference.name));
+}
+
+/**
+ * Flags references to objects that no vars file in data/ declares (and that aren't builtin, like the Global site) as warnings.
+ */
+function publishDiagnostics() {
+    for (const file of varsFiles.values()) {
+        const diagnostics = file.referenced
+            .filter(r => !rules[r.kind]?.builtin.includes(r.name) && findDeclarations(r).length === 0)
+            .map(r => {
+                const declaringKeys = [...new Set(rules[r.kind].created.map(c => c.under))].join(' or ');
+                const diagnostic = new vscode.Diagnostic(
+                    new vscode.Range(r.start.line, r.start.character, r.end.line, r.end.character),
+                    `${r.kind[0].toUpperCase()}${r.kind.slice(1)} "${r.name}" is not declared in any vars file in data/ (under ${declaringKeys}). Make sure it exists on Catalyst Center.`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.source = 'NaC references';
+                diagnostic.code = `undeclared-${r.kind}`;
+                return diagnostic;
+            });
+        collection?.set(file.uri, diagnostics);
+    }
+}
+
+/**
+ * Goes from a referenced object (e.g. the site_name_hierarchy of a provision vars file) to where vars files in data/ declare it.
+ */
+function provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location[] | undefined {
+    if (!isVarsFile(document.uri)) {
+        return undefined;
+    }
+    const reference = referencedObjects(document.getText(), rules).find(r =>
+        new vscode.Range(r.start.line, r.start.character, r.end.line, r.end.character).contains(position));
+    if (!reference) {
+        return undefined;
+    }
+    return findDeclarations(reference).map(d => new vscode.Location(d.uri, new vscode.Range(d.object.start.line, d.object.start.character, d.object.end.line, d.object.end.character)));
+}
+
+export { registerReferenceAnalyzer };
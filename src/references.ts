@@ -0,0 +1,186 @@
+import { parseAllDocuments, isMap, isScalar, isSeq, LineCounter, Node, Scalar, YAMLMap } from 'yaml';
+import { SourcePosition } from './yamaleValidator.js';
+
+// vars files with the top-level key "under" create an object named by each value of "key" (see task_dependencies.yml)
+export interface ObjectCreationRule {
+    under: string;
+    key: string;
+    within?: string;
+    parent_key?: string;
+}
+
+// key whose values name an existing object, optionally only inside a mapping or list of the "within" key
+export interface ObjectReferenceRule {
+    key: string;
+    within?: string;
+}
+
+// how vars files create & reference one kind of object (site, tag, device, credential)
+export interface ObjectRule {
+    builtin: string[];
+    created: ObjectCreationRule[];
+    referenced: ObjectReferenceRule[];
+}
+
+// object kinds by name, from the objects section of task_dependencies.yml
+export type ObjectRules = { [kind: string]: ObjectRule };
+
+// object declared or referenced by a vars file, with the source range of its name (zero-based)
+export interface VarsFileObject {
+    kind: string;
+    name: string;
+    start: SourcePosition;
+    end: SourcePosition;
+}
+
+/**
+ * Narrows a parsed YAML value to a mapping, or an empty one if it is a scalar, list or null.
+ */
+function asMapping(value: unknown): { [key: string]: unknown } {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as { [key: string]: unknown } : {};
+}
+
+function asList(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function isOptionalString(value: unknown): boolean {
+    return value === undefined || typeof value === 'string';
+}
+
+function isCreationRule(value: unknown): value is ObjectCreationRule {
+    const { under, key, within, parent_key } = asMapping(value);
+    return typeof under === 'string' && typeof key === 'string' && isOptionalString(within) && isOptionalString(parent_key);
+}
+
+function isReferenceRule(value: unknown): value is ObjectReferenceRule {
+    const { key, within } = asMapping(value);
+    return typeof key === 'string' && isOptionalString(within);
+}
+
+/**
+ * Normalizes the objects section of task_dependencies.yml: defaults missing lists, accepts plain key names as reference rules,
+ * and leaves out malformed rules.
+ */
+function parseObjectRules(objects: unknown): ObjectRules {
+    const rules: ObjectRules = {};
+    for (const [kind, rule] of Object.entries(asMapping(objects))) {
+        const { builtin, created, referenced } = asMapping(rule);
+        rules[kind] = {
+            builtin: asList(builtin).map(String),
+            created: asList(created).filter(isCreationRule),
+            referenced: asList(referenced).map(r => typeof r === 'string' ? { key: r } : r).filter(isReferenceRule),
+        };
+    }
+    return rules;
+}
+
+/**
+ * Walks the mappings of every YAML document in a vars file, calling visit with each key, its value & the keys enclosing its mapping.
+ * Returns the line counter of the parsed content. Vars files that can't be parsed are not walked.
+ */
+function walkVarsFile(content: string, visit: (key: string, value: unknown, map: YAMLMap, ancestors: string[]) => void): LineCounter {
+    const lineCounter = new LineCounter();
+    const walk = (node: unknown, ancestors: string[]) => {
+        if (isMap(node)) {
+            for (const pair of node.items) {
+                const key = isScalar(pair.key) ? String(pair.key.value) : "";
+                visit(key, pair.value, node, ancestors);
+                walk(pair.value, [...ancestors, key]);
+            }
+        } else if (isSeq(node)) {
+            node.items.forEach(item => walk(item, ancestors));
+        }
+    };
+    try {
+        for (const document of parseAllDocuments(content, { lineCounter })) {
+            if ('contents' in document && document.errors.length === 0) {
+                walk(document.contents, []);
+            }
+        }
+    } catch (error) {
+        console.error("Error parsing vars file for object references: ", error);
+    }
+    return lineCounter;
+}
+
+/**
+ * Returns the scalar nodes naming objects in a value: the scalar itself, or the scalars of a list.
+ */
+function scalarNodes(value: unknown): Scalar[] {
+    if (isSeq(value)) {
+        return value.items.filter(item => isScalar(item)) as Scalar[];
+    }
+    return isScalar(value) && (typeof value.value === 'string' || typeof value.value === 'number') ? [value] : [];
+}
+
+function toObject(kind: string, name: string, node: Node, lineCounter: LineCounter): VarsFileObject {
+    const position = (offset: number): SourcePosition => {
+        const { line, col } = lineCounter.linePos(offset);
+        return { line: line - 1, character: col - 1 };
+    };
+    return { kind, name, start: position(node.range![0]), end: position(node.range![1]) };
+}
+
+/**
+ * Returns the objects declared (created) by a vars file, in source order.
+ * Names are prefixed with the value of the creation rule's parent_key in the same mapping, e.g. Global/USA/SAN JOSE for sites.
+ */
+function declaredObjects(content: string, rules: ObjectRules): VarsFileObject[] {
+    const found: { kind: string, name: string, node: Node }[] = [];
+    const lineCounter = walkVarsFile(content, (key, value, map, ancestors) => {
+        for (const [kind, rule] of Object.entries(rules)) {
+            for (const creation of rule.created) {
+                if (key !== creation.key || ancestors[0] !== creation.under || (creation.within && !ancestors.includes(creation.within))) {
+                    continue;
+                }
+                const parent = creation.parent_key ? scalarNodes(map.get(creation.parent_key, true))[0]?.value : undefined;
+                for (const node of scalarNodes(value)) {
+                    found.push({ kind, name: parent !== undefined ? `${parent}/${node.value}` : String(node.value), node });
+                }
+            }
+        }
+    });
+    return found.map(f => toObject(f.kind, f.name, f.node, lineCounter));
+}
+
+/**
+ * Returns the objects referenced by a vars file, in source order, skipping Jinja expressions.
+ */
+function referencedObjects(content: string, rules: ObjectRules): VarsFileObject[] {
+    const found: { kind: string, name: string, node: Node }[] = [];
+    const lineCounter = walkVarsFile(content, (key, value, map, ancestors) => {
+        for (const [kind, rule] of Object.entries(rules)) {
+            if (rule.referenced.some(r => r.key === key && (!r.within || ancestors.includes(r.within)))) {
+                for (const node of scalarNodes(value)) {
+                    if (!String(node.value).includes('{{')) {
+                        found.push({ kind, name: String(node.value), node });
+                    }
+                }
+            }
+        }
+    });
+    return found.map(f => toObject(f.kind, f.name, f.node, lineCounter));
+}
+
+function ipToNumber(ip: string): number | undefined {
+    const octets = ip.trim().split('.');
+    if (octets.length !== 4 || octets.some(o => !/^\d{1,3}$/.test(o) || Number(o) > 255)) {
+        return undefined;
+    }
+    return octets.reduce((n, o) => n * 256 + Number(o), 0);
+}
+
+/**
+ * Checks whether a declared object satisfies a reference: same name, a descendant of the referenced site, or an IP range containing the referenced IP.
+ */
+function satisfies(declared: string, reference: string): boolean {
+    if (declared === reference || declared.startsWith(`${reference}/`)) {
+        return true;
+    }
+    const [start, end] = declared.split('-').map(ipToNumber);
+    const ip = ipToNumber(reference);
+    return start !== undefined && end !== undefined && ip !== undefined && start <= ip && ip <= end;
+}
+
+export { parseObjectRules, declaredObjects, referencedObjects, satisfies };
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import fsPromises from 'fs/promises';
+import * as path from 'path';
+import { validateVarsFiles } from './annotations.js';
+import { Finding, FindingTool, FindingSeverity, VarsFileFindings, formatFindings } from './findings.js';
+
+// machine-readable report formats for CI pipelines & code review tools
+export type ReportFormat = 'sarif' | 'junit';
+
+// validation tools in report order, with their SARIF driver information
+const REPORT_TOOLS: { [tool in FindingTool]: { name: string, informationUri: string } } = {
+    'yamale': { name: 'Yamale', informationUri: 'https://github.com/23andMe/Yamale' },
+    'yamllint': { name: 'yamllint', informationUri: 'https://github.com/adrienverge/yamllint' },
+    'ansible-lint': { name: 'ansible-lint', informationUri: 'https://github.com/ansible/ansible-lint' },
+};
+
+// SARIF result level per finding severity
+const SARIF_LEVELS: { [severity in FindingSeverity]: string } = {
+    'error': 'error',
+    'warning': 'warning',
+    'info': 'note',
+};
+
+// report file names in the validation_results folder of the user's workspace
+const REPORT_FILES: { [format in ReportFormat]: string } = {
+    'sarif': 'nac_validation.sarif',
+    'junit': 'nac_validation.junit.xml',
+};
+
+/**
+ * Registers the command exporting validation results of the open vars file or every vars file in data/ as SARIF and/or JUnit XML.
+ */
+function registerReports(context: vscode.ExtensionContext) {
+    context.subscriptions.push(vscode.commands.registerCommand('export-validation-report', async () => {
+        const activeFile = vscode.window.activeTextEditor?.document.uri;
+        const scopes = [
+            ...(activeFile && /\.ya?ml$/.test(activeFile.fsPath) ? [{ label: "Open vars file", description: vscode.workspace.asRelativePath(activeFile, false), all: false }] : []),
+            { label: "All vars files in data/", description: "", all: true },
+        ];
+        const scope = scopes.length === 1 ? scopes[0] : await vscode.window.showQuickPick(scopes, { placeHolder: "Select the vars files to validate" });
+        if (!scope) {
+            return;
+        }
+        const formats = await vscode.window.showQuickPick([
+            { label: "SARIF 2.1", format: 'sarif' as ReportFormat, picked: true },
+            { label: "JUnit XML", format: 'junit' as ReportFormat, picked: true },
+        ], { placeHolder: "Select the report formats", canPickMany: true });
+        if (!formats || formats.length === 0) {
+            return;
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Exporting validation report...",
+            cancellable: true
+        }, async (progress, token) => {
+            const uris = scope.all || !activeFile ? await findVarsFiles() : [activeFile];
+            const { results, reportPaths } = await exportValidationReports(uris, formats.map(f => f.format), progress, token);
+            if (token.isCancellationRequested) {
+                return;
+            }
+            const errors = results.flatMap(r => r.findings).filter(f => f.severity === 'error').length;
+            const open = await vscode.window.showInformationMessage(
+                `Validated ${results.length} vars file${results.length === 1 ? "" : "s"} with ${errors} error${errors === 1 ? "" : "s"}. Reports written to validation_results/.`,
+                "Open Report"
+            );
+            if (open && reportPaths.length > 0) {
+                await vscode.window.showTextDocument(vscode.Uri.file(reportPaths[0]));
+            }
+        });
+    }));
+}
+
+/**
+ * Lists YAML vars files in the given folders of the user's workspace (including subfolders), sorted by path.
+ */
+async function findVarsFiles(folders: string[] = ['data']): Promise<vscode.Uri[]> {
+    const uris = await vscode.workspace.findFiles(`{${folders.join(',')}}/**/*.{yml,yaml}`);
+    return uris.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/**
+ * Validates the given vars files (several at a time) & writes the reports in the given formats.
+ * Stops early if cancelled, without writing reports. Returns findings per file & paths of the written reports.
+ */
+async function exportValidationReports(uris: vscode.Uri[], formats: ReportFormat[], progress?: vscode.Progress<{ message?: string, increment?: number }>, token?: vscode.CancellationToken): Promise<{ results: VarsFileFindings[], reportPaths: string[] }> {
+    const results = await validateVarsFiles(uris, result => progress?.report({ message: result.file, increment: 100 / uris.length }), token);
+    if (token?.isCancellationRequested) {
+        return { results, reportPaths: [] };
+    }
+    return { results, reportPaths: await writeValidationReports(results, formats) };
+}
+
+/**
+ * Writes validation reports into the validation_results folder of the user's workspace, replacing previous reports.
+ * Returns paths of the written reports.
+ */
+async function writeValidationReports(results: VarsFileFindings[], formats: ReportFormat[]): Promise<string[]> {
+    const resultsDir = `${vscode.workspace.rootPath}/validation_results`;
+    await fsPromises.mkdir(resultsDir, { recursive: true });
+
+    const reportPaths: string[] = [];
+    for (const format of formats) {
+        const reportPath = path.join(resultsDir, REPORT_FILES[format]);
+        const content = format === 'sarif' ? JSON.stringify(toSarif(results), null, 2) : toJUnit(results);
+        await fsPromises.writeFile(reportPath, content, 'utf8');
+        reportPaths.push(reportPath);
+    }
+    return reportPaths;
+}
+
+/**
+ * Converts findings into a SARIF 2.1.0 log with one run per tool that was run on any of the files.
+ * File locations are relative to the workspace root (uriBaseId SRCROOT).
+ */
+function toSarif(results: VarsFileFindings[]): object {
+    const tools = (Object.keys(REPORT_TOOLS) as FindingTool[]).filter(tool => results.some(r => r.tools.includes(tool)));
+    return {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: tools.map(tool => {
+            const toolResults = results.flatMap(r => r.findings.filter(f => f.tool === tool).map(f => ({ file: r.file, finding: f })));
+            const ruleIds = [...new Set(toolResults.map(({ finding }) => finding.rule || tool))];
+            return {
+                tool: { driver: { ...REPORT_TOOLS[tool], rules: ruleIds.map(id => ({ id })) } },
+                results: toolResults.map(({ file, finding }) => ({
+                    ruleId: finding.rule || tool,
+                    ruleIndex: ruleIds.indexOf(finding.rule || tool),
+                    level: SARIF_LEVELS[finding.severity],
+                    message: { text: finding.message },
+                    locations: [{
+                        physicalLocation: {
+                            artifactLocation: { uri: file.split(path.sep).join('/'), uriBaseId: 'SRCROOT' },
+                            region: sarifRegion(finding),
+                        },
+                    }],
+                })),
+            };
+        }),
+    };
+}
+
+function sarifRegion(finding: Finding): object {
+    const region: { [key: string]: number } = { startLine: finding.line, startColumn: finding.column };
+    if (finding.endLine !== undefined && finding.endColumn !== undefined) {
+        region.endLine = finding.endLine;
+        region.endColumn = finding.endColumn;
+    }
+    return region;
+}
+
+/**
+ * Converts findings into JUnit XML: one test suite per vars file & one test case per tool.
+ * Test cases fail on error findings (warnings are listed as output), and are skipped for tools that were not run on the file.
+ */
+function toJUnit(results: VarsFileFindings[]): string {
+    const tools = Object.keys(REPORT_TOOLS) as FindingTool[];
+    let totalFailures = 0;
+    let totalSkipped = 0;
+
+    const suites = results.map(r => {
+        let failures = 0;
+        let skipped = 0;
+        const cases = tools.map(tool => {
+            const testCase = `    <testcase classname="${escapeXml(r.file)}" name="${REPORT_TOOLS[tool].name}"`;
+            if (!r.tools.includes(tool)) {
+                skipped++;
+                const reason = tool === 'yamale' ? "No validation schema bound to or detected for this vars file" : `${REPORT_TOOLS[tool].name} could not be run`;
+                return `${testCase}>\n      <skipped message="${escapeXml(reason)}"/>\n    </testcase>`;
+            }
+            const errors = r.findings.filter(f => f.tool === tool && f.severity === 'error');
+            const others = r.findings.filter(f => f.tool === tool && f.severity !== 'error');
+            let body = "";
+            if (errors.length > 0) {
+                failures++;
+                body += `\n      <failure message="${errors.length} error${errors.length === 1 ? "" : "s"}" type="${tool}">${escapeXml(formatFindings(errors))}</failure>`;
+            }
+            if (others.length > 0) {
+                body += `\n      <system-out>${escapeXml(formatFindings(others))}</system-out>`;
+            }
+            return body ? `${testCase}>${body}\n    </testcase>` : `${testCase}/>`;
+        });
+        totalFailures += failures;
+        totalSkipped += skipped;
+        return `  <testsuite name="${escapeXml(r.file)}" tests="${tools.length}" failures="${failures}" errors="0" skipped="${skipped}">\n${cases.join('\n')}\n  </testsuite>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n`
+        + `<testsuites name="NaC validation" tests="${results.length * tools.length}" failures="${totalFailures}" errors="0" skipped="${totalSkipped}">\n`
+        + (suites.length > 0 ? `${suites.join('\n')}\n` : "")
+        + `</testsuites>\n`;
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+export { registerReports, findVarsFiles, exportValidationReports, toSarif, toJUnit };
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import fsPromises from 'fs/promises';
+import { parse } from 'yaml';
+
+// ansible-playbook options of a Run Playbook, remembered per vars file
+export interface RunOptions {
+    check: boolean;
+    tags: string[];
+    skipTags: string[];
+    limit: string;
+    verbosity: number;
+}
+
+// options used for vars files that were never run (-vvv was the former hard-coded verbosity)
+const DEFAULT_RUN_OPTIONS: RunOptions = { check: false, tags: [], skipTags: [], limit: "", verbosity: 3 };
+
+// workspace state key of the remembered options, keyed by workspace-relative vars file path
+const RUN_OPTIONS_KEY = 'nac-copilot.runOptions';
+
+// global state variables shared across run options functions
+let workspaceState: vscode.Memento | undefined;
+
+/**
+ * Keeps the workspace state used to remember Run Playbook options per vars file.
+ */
+function registerRunOptions(context: vscode.ExtensionContext) {
+    workspaceState = context.workspaceState;
+}
+
+/**
+ * Returns the options last used to run a vars file, or the defaults.
+ */
+function getRunOptions(varsFilePath: string): RunOptions {
+    const stored = workspaceState?.get<{ [varsFile: string]: RunOptions }>(RUN_OPTIONS_KEY, {}) || {};
+    return { ...DEFAULT_RUN_OPTIONS, ...stored[vscode.workspace.asRelativePath(varsFilePath, false)] };
+}
+
+async function setRunOptions(varsFilePath: string, options: RunOptions) {
+    const stored = workspaceState?.get<{ [varsFile: string]: RunOptions }>(RUN_OPTIONS_KEY, {}) || {};
+    await workspaceState?.update(RUN_OPTIONS_KEY, { ...stored, [vscode.workspace.asRelativePath(varsFilePath, false)]: options });
+}
+
+/**
+ * Converts run options into ansible-playbook arguments.
+ */
+function runOptionArgs(options: RunOptions): string[] {
+    const args: string[] = [];
+    if (options.check) {
+        args.push('--check', '--diff');
+    }
+    if (options.tags.length > 0) {
+        args.push('--tags', options.tags.join(','));
+    }
+    if (options.skipTags.length > 0) {
+        args.push('--skip-tags', options.skipTags.join(','));
+    }
+    if (options.limit) {
+        args.push('--limit', options.limit);
+    }
+    if (options.verbosity > 0) {
+        args.push(`-${'v'.repeat(options.verbosity)}`);
+    }
+    return args;
+}
+
+/**
+ * Describes run options in one line, e.g. "check mode, tags: a,b, limit: host, -vvv".
+ */
+function describeRunOptions(options: RunOptions): string {
+    const parts = [options.check ? "check mode (--check --diff)" : "apply changes"];
+    if (options.tags.length > 0) {
+        parts.push(`tags: ${options.tags.join(',')}`);
+    }
+    if (options.skipTags.length > 0) {
+        parts.push(`skip tags: ${options.skipTags.join(',')}`);
+    }
+    parts.push(options.limit ? `limit: ${options.limit}` : "all hosts");
+    parts.push(options.verbosity > 0 ? `-${'v'.repeat(options.verbosity)}` : "default verbosity");
+    return parts.join(', ');
+}
+
+/**
+ * Lists the hosts & groups of an Ansible YAML inventory (e.g. hosts.yaml), for limiting a run.
+ * Returns an empty list if the inventory can't be read.
+ */
+async function inventoryHosts(hostsFilePath: string): Promise<{ name: string, group: boolean }[]> {
+    let inventory: unknown;
+    try {
+        inventory = parse(await fsPromises.readFile(hostsFilePath, 'utf8'));
+    } catch (error) {
+        console.error("Error reading inventory for host limit: ", error);
+        return [];
+    }
+
+    // groups map to their hosts & child groups by name; anything else in the inventory is ignored
+    const entries = new Map<string, boolean>();
+    const walkGroup = (name: string, group: unknown) => {
+        entries.set(name, true);
+        const { hosts, children } = inventoryMapping(group);
+        for (const host of Object.keys(inventoryMapping(hosts))) {
+            entries.set(host, false);
+        }
+        for (const [child, childGroup] of Object.entries(inventoryMapping(children))) {
+            walkGroup(child, childGroup);
+        }
+    };
+    for (const [name, group] of Object.entries(inventoryMapping(inventory))) {
+        walkGroup(name, group);
+    }
+    return [...entries].map(([name, group]) => ({ name, group }));
+}
+
+/**
+ * Narrows a parsed inventory value to a mapping, or an empty one if it is a scalar, list or null.
+ */
+function inventoryMapping(value: unknown): { [key: string]: unknown } {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as { [key: string]: unknown } : {};
+}
+
+/**
+ * Lets the user run with the options remembered for a vars file, or change them step by step:
+ * check mode, tags, skip tags, host limit (from the inventory) & verbosity. Changed options are remembered for the vars file.
+ * Returns the options to run with, or undefined if the user dismissed a step.
+ */
+async function pickRunOptions(varsFilePath: string, hostsFilePath: string): Promise<RunOptions | undefined> {
+    const last = getRunOptions(varsFilePath);
+    const start = await vscode.window.showQuickPick([
+        { label: "$(play) Run", description: describeRunOptions(last), change: false },
+        { label: "$(settings) Change run options...", description: "Check mode, tags, host limit, verbosity", change: true },
+    ], { placeHolder: `Run ${vscode.workspace.asRelativePath(varsFilePath, false)}` });
+    if (!start) {
+        return undefined;
+    }
+    if (!start.change) {
+        return last;
+    }
+
+    const mode = await vscode.window.showQuickPick([
+        { label: "Apply changes", check: false },
+        { label: "Check mode", description: "--check --diff: show what would change on Catalyst Center without changing it", check: true },
+    ].sort((a, b) => Number(b.check === last.check) - Number(a.check === last.check)), { placeHolder: "Select run mode" });
+    if (!mode) {
+        return undefined;
+    }
+
+    const splitTags = (value: string) => value.split(',').map(t => t.trim()).filter(t => t);
+    const tags = await vscode.window.showInputBox({ prompt: "Only run tasks with these tags (comma-separated, empty for all)", value: last.tags.join(',') });
+    if (tags === undefined) {
+        return undefined;
+    }
+    const skipTags = await vscode.window.showInputBox({ prompt: "Skip tasks with these tags (comma-separated, empty for none)", value: last.skipTags.join(',') });
+    if (skipTags === undefined) {
+        return undefined;
+    }
+
+    const hosts = await inventoryHosts(hostsFilePath);
+    const limit = await vscode.window.showQuickPick([
+        { label: "All hosts", value: "" },
+        ...hosts.map(h => ({ label: h.name, description: h.group ? "group" : "host", value: h.name })),
+    ].sort((a, b) => Number(b.value === last.limit) - Number(a.value === last.limit)), { placeHolder: "Limit the run to a host or group of the inventory" });
+    if (!limit) {
+        return undefined;
+    }
+
+    const verbosity = await vscode.window.showQuickPick([0, 1, 2, 3, 4].map(level => ({
+        label: level > 0 ? `-${'v'.repeat(level)}` : "Default",
+        description: level === last.verbosity ? "last used" : "",
+        level
+    })).sort((a, b) => Number(b.level === last.verbosity) - Number(a.level === last.verbosity)), { placeHolder: "Select output verbosity" });
+    if (!verbosity) {
+        return undefined;
+    }
+
+    const options: RunOptions = { check: mode.check, tags: splitTags(tags), skipTags: splitTags(skipTags), limit: limit.value, verbosity: verbosity.level };
+    await setRunOptions(varsFilePath, options);
+    return options;
+}
+
+export { registerRunOptions, getRunOptions, runOptionArgs, describeRunOptions, inventoryHosts, pickRunOptions };
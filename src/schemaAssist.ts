@@ -0,0 +1,213 @@
+import * as vscode from 'vscode';
+import { getVarsFiles } from './extension.js';
+import { getDocumentTask } from './session.js';
+import { LIST_ITEM, loadYamaleSchema, isRequired, resolveInclude, placeholderValue, schemaNodeAtPath, formatSchemaNode, SchemaNode, YamaleSchema } from './yamaleValidator.js';
+
+// line holding a map key, optionally as the first key of a list item: "<indent>[- ]key:"
+const KEY_LINE = /^(\s*)(-\s+)?([\w.-]+|"[^"]*"|'[^']*')\s*:(?=\s|$)/;
+
+// position of the cursor in the YAML structure of a vars file
+interface CursorContext {
+    path: string[];
+    keyColumn: number;
+    lineIndent: number;
+    key?: string;
+    partial: string;
+}
+
+/**
+ * Registers schema-driven completion & hover for vars files bound to a workflow (see bindings.ts).
+ */
+function registerSchemaAssist(context: vscode.ExtensionContext) {
+    const selector = [{ language: 'yaml' }, { language: 'ansible' }];
+    context.subscriptions.push(vscode.languages.registerCompletionItemProvider(selector, { provideCompletionItems }, ' '));
+    context.subscriptions.push(vscode.languages.registerHoverProvider(selector, { provideHover }));
+}
+
+/**
+ * Returns the parsed validation schema of the workflow a vars file is bound to, if any.
+ */
+async function boundSchema(document: vscode.TextDocument): Promise<YamaleSchema | undefined> {
+    const task = getDocumentTask(document.uri);
+    if (!task?.schemaFile) {
+        return undefined;
+    }
+    try {
+        return await loadYamaleSchema(task.schemaFile);
+    } catch (error) {
+        console.error("Error loading validation schema for completion: ", error);
+        return undefined;
+    }
+}
+
+/**
+ * Finds the key path of the map a key at the given column belongs to, by walking up to the lines with smaller indentation.
+ * Block YAML only: list items are recognized by their "- " marker and added to the path as "-".
+ */
+function parentPath(document: vscode.TextDocument, line: number, keyColumn: number, dashColumn?: number): string[] {
+    const reversed: string[] = [];
+    let target = keyColumn;
+    if (dashColumn !== undefined) {
+        reversed.push(LIST_ITEM);
+        target = dashColumn;
+    }
+
+    for (let i = line - 1; i >= 0 && target > 0; i--) {
+        const match = document.lineAt(i).text.match(KEY_LINE);
+        if (!match) {
+            continue;
+        }
+        const lineDash = match[1].length;
+        const lineKey = lineDash + (match[2]?.length || 0);
+        if (match[2] && lineDash < target) {
+            // key of an enclosing list item (or a sibling key in the same item), then the item itself
+            if (lineKey < target) {
+                reversed.push(unquote(match[3]));
+            }
+            reversed.push(LIST_ITEM);
+            target = lineDash;
+        } else if (!match[2] && lineKey < target) {
+            reversed.push(unquote(match[3]));
+            target = lineKey;
+        }
+    }
+    return reversed.reverse();
+}
+
+function unquote(key: string): string {
+    return key.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Works out whether the cursor is on a key (completing keys of the enclosing map) or after "key: " (completing its value).
+ * Returns undefined anywhere else (e.g. in comments or flow collections).
+ */
+function cursorContext(document: vscode.TextDocument, position: vscode.Position): CursorContext | undefined {
+    const textBefore = document.lineAt(position.line).text.slice(0, position.character);
+    const valueMatch = textBefore.match(/^(\s*)(-\s+)?([\w.-]+|"[^"]*"|'[^']*')\s*:\s+([\w.-]*)$/);
+    const keyMatch = textBefore.match(/^(\s*)(-\s+)?([\w.-]*)$/);
+    const match = valueMatch || keyMatch;
+    if (!match) {
+        return undefined;
+    }
+
+    const keyColumn = match[1].length + (match[2]?.length || 0);
+    const path = parentPath(document, position.line, keyColumn, match[2] ? match[1].length : undefined);
+    return valueMatch
+        ? { path, keyColumn, lineIndent: match[1].length, key: unquote(valueMatch[3]), partial: valueMatch[4] }
+        : { path, keyColumn, lineIndent: match[1].length, partial: match[3] };
+}
+
+/**
+ * Returns the map fields described by a schema node: fields of a static map / include, or of the items of a list of them.
+ */
+function schemaFields(schema: YamaleSchema, node: SchemaNode | undefined): { [key: string]: SchemaNode } {
+    const resolved = node ? resolveInclude(schema, node) : undefined;
+    return resolved?.type === 'map' ? resolved.fields : {};
+}
+
+/**
+ * Lists allowed values of a scalar schema node (enum values or booleans), or an empty list if any value of its type is allowed.
+ */
+function allowedValues(schema: YamaleSchema, node: SchemaNode | undefined): string[] {
+    const resolved = node ? resolveInclude(schema, node) : undefined;
+    if (resolved?.type !== 'validator') {
+        return [];
+    }
+    if (resolved.name === 'enum') {
+        return resolved.args.filter(a => a === null || typeof a !== 'object').map(a => String(a));
+    }
+    return resolved.name === 'bool' ? ['true', 'false'] : [];
+}
+
+/**
+ * Suggests keys valid at the cursor's path (required first, with placeholders from the schema), enum / boolean values after "key: ",
+ * and the workflow's sample vars file at the top level of the document.
+ */
+async function provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[]> {
+    const schema = await boundSchema(document);
+    const cursor = schema ? cursorContext(document, position) : undefined;
+    if (!schema || !cursor) {
+        return [];
+    }
+    const range = new vscode.Range(position.translate(0, -cursor.partial.length), position);
+
+    // value completions: enum values & booleans of the key on this line
+    if (cursor.key) {
+        return allowedValues(schema, schemaNodeAtPath(schema, [...cursor.path, cursor.key])).map(value => {
+            const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.EnumMember);
+            item.range = range;
+            return item;
+        });
+    }
+
+    const items = Object.entries(schemaFields(schema, schemaNodeAtPath(schema, cursor.path))).map(([key, field]) => {
+        const required = isRequired(field);
+        const item = new vscode.CompletionItem({ label: key, description: required ? "required" : "optional" }, vscode.CompletionItemKind.Property);
+        item.detail = formatSchemaNode(field);
+        item.sortText = `${required ? 0 : 1}_${key}`;
+        item.range = range;
+
+        // enum values become a choice snippet; maps & lists are expanded into their required fields
+        const values = allowedValues(schema, field);
+        if (values.length > 0) {
+            item.insertText = new vscode.SnippetString(`${key}: \${1|${values.map(v => v.replace(/[,|\\$}]/g, '\\$&')).join(',')}|}`);
+        } else {
+            // VS Code indents following lines of the completion by the line's indentation, so only the "- " offset is added here
+            item.insertText = `${key}:${placeholderValue(schema, field, cursor.keyColumn - cursor.lineIndent)}`;
+        }
+        return item;
+    });
+
+    // sample vars file of the bound playbook, offered on an empty top-level line
+    const task = getDocumentTask(document.uri);
+    if (task && cursor.path.length === 0 && cursor.keyColumn === 0 && cursor.partial === "") {
+        const sample = String(await getVarsFiles(task.workflow, true, task.playbook));
+        if (sample.trim()) {
+            const item = new vscode.CompletionItem(`Sample vars file for ${task.playbook}`, vscode.CompletionItemKind.Snippet);
+            item.insertText = sample;
+            item.documentation = new vscode.MarkdownString().appendCodeblock(sample, 'yaml');
+            item.sortText = `2_sample`;
+            items.push(item);
+        }
+    }
+    return items;
+}
+
+/**
+ * Shows the schema of the key under the cursor: validator, required / optional, allowed values, and fields of nested maps.
+ */
+async function provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    const match = document.lineAt(position.line).text.match(KEY_LINE);
+    const schema = match ? await boundSchema(document) : undefined;
+    if (!match || !schema) {
+        return undefined;
+    }
+
+    const keyColumn = match[1].length + (match[2]?.length || 0);
+    if (position.character < keyColumn) {
+        return undefined;
+    }
+    const key = unquote(match[3]);
+    const path = [...parentPath(document, position.line, keyColumn, match[2] ? match[1].length : undefined), key];
+    const node = schemaNodeAtPath(schema, path);
+    if (!node) {
+        return undefined;
+    }
+
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${key}** (${isRequired(node) ? "required" : "optional"})\n\n`);
+    markdown.appendCodeblock(formatSchemaNode(node), 'python');
+
+    const values = allowedValues(schema, node);
+    if (values.length > 0) {
+        markdown.appendMarkdown(`\n\nAllowed values: ${values.map(v => `\`${v}\``).join(', ')}`);
+    }
+    const fields = schemaFields(schema, node.type === 'validator' && node.name === 'list' ? schemaNodeAtPath(schema, [...path, LIST_ITEM]) : node);
+    if (Object.keys(fields).length > 0) {
+        markdown.appendMarkdown(`\n\nFields: ${Object.entries(fields).map(([k, f]) => `\`${k}\`${isRequired(f) ? " (required)" : ""}`).join(', ')}`);
+    }
+    return new vscode.Hover(markdown, new vscode.Range(position.line, keyColumn, position.line, keyColumn + match[3].length));
+}
+
+export { registerSchemaAssist };
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import * as path from 'path';
+import { parseAllDocuments, isMap, isScalar } from 'yaml';
+import { TaskContext } from './session.js';
+
+// validation schema matched against a vars file by top-level keys
+export interface SchemaMatch extends TaskContext {
+    score: number;
+    matchedKeys: string[];
+}
+
+/**
+ * Retrieves top-level keys of the first YAML document in the given content.
+ * For Yamale schemas, the first document is the main schema (include definitions follow after "---").
+ * Returns an empty list if the content cannot be parsed.
+ */
+function topLevelKeys(content: string): string[] {
+    try {
+        const document = parseAllDocuments(content)[0];
+        if (!document || !('contents' in document) || !isMap(document.contents)) {
+            return [];
+        }
+        return document.contents.items
+            .map(item => isScalar(item.key) ? String(item.key.value) : "")
+            .filter(key => key !== "");
+    } catch (error) {
+        console.error("Error parsing YAML for top-level keys: ", error);
+        return [];
+    }
+}
+
+/**
+ * Checks whether a validation schema declares every top-level key of a vars file.
+ * Returns false for empty files and missing schemas, since there is nothing to compare.
+ */
+async function schemaDeclaresKeys(schemaFile: string, content: string): Promise<boolean> {
+    const varsKeys = topLevelKeys(content);
+    if (varsKeys.length === 0 || !schemaFile || !fs.existsSync(schemaFile)) {
+        return false;
+    }
+    const schemaKeys = topLevelKeys(await fsPromises.readFile(schemaFile, 'utf8'));
+    return varsKeys.every(key => schemaKeys.includes(key));
+}
+
+/**
+ * Checks whether a vars file is meant for a delete playbook, based on its folder (data_deletion/) or file name.
+ */
+function isDeletionVarsFile(relativePath: string): boolean {
+    return relativePath.startsWith('data_deletion/') || path.basename(relativePath).includes('delete');
+}
+
+/**
+ * Returns the workflows directory of the cloned GitHub repo in the user's workspace.
+ */
+function defaultWorkflowsDir(): string {
+    return `${vscode.workspace.rootPath}/ai-assistant-catalyst-center-ansible-iac/workflows`;
+}
+
+/**
+ * Picks the playbook of a workflow that goes with a validation schema: delete playbooks for delete schemas (or deletion vars files
+ * when the workflow has a single shared schema), and non-Jinja playbooks over Jinja ones.
+ */
+function matchPlaybook(playbookDir: string, schemaFile: string, deletion: boolean): string {
+    if (!fs.existsSync(playbookDir)) {
+        return "";
+    }
+    const playbooks = fs.readdirSync(playbookDir).filter(f => /\.ya?ml$/.test(f)).sort();
+    const wantsDelete = path.basename(schemaFile).includes('delete') || deletion;
+    const matching = playbooks.filter(p => p.includes('delete') === wantsDelete);
+    const candidates = matching.length > 0 ? matching : playbooks;
+    return candidates.find(p => !p.includes('jinja')) || candidates[0] || "";
+}
+
+/**
+ * Detects which workflow validation schemas a vars file belongs to by matching its top-level keys
+ * (e.g. passwords_details, tags_details) against the top-level keys declared by every schema in the cloned GitHub repo.
+ * Returns matches sorted best first; deletion vars files (data_deletion/ or "delete" in name) prefer delete schemas on ties.
+ */
+async function detectVarsFileSchemas(content: string, relativePath: string, workflowsDir: string = defaultWorkflowsDir()): Promise<SchemaMatch[]> {
+    const varsKeys = topLevelKeys(content);
+    if (varsKeys.length === 0 || !fs.existsSync(workflowsDir)) {
+        return [];
+    }
+
+    const deletion = isDeletionVarsFile(relativePath);
+    const matches: SchemaMatch[] = [];
+
+    for (const workflow of fs.readdirSync(workflowsDir)) {
+        const schemaDir = path.join(workflowsDir, workflow, 'schema');
+        if (!fs.existsSync(schemaDir)) {
+            continue;
+        }
+
+        for (const schemaName of fs.readdirSync(schemaDir).filter(f => /_schema\.ya?ml$/.test(f))) {
+            const schemaFile = path.join(schemaDir, schemaName);
+            const schemaKeys = topLevelKeys(await fsPromises.readFile(schemaFile, 'utf8'));
+            const matchedKeys = varsKeys.filter(key => schemaKeys.includes(key));
+            if (matchedKeys.length === 0) {
+                continue;
+            }
+
+            // share of vars file keys the schema declares, with a smaller bonus for how much of the schema the file covers
+            let score = 0.8 * matchedKeys.length / varsKeys.length + 0.2 * matchedKeys.length / schemaKeys.length;
+            if (schemaName.includes('delete') === deletion) {
+                score += 0.01;
+            }
+
+            matches.push({
+                workflow,
+                playbook: matchPlaybook(path.join(workflowsDir, workflow, 'playbook'), schemaFile, deletion),
+                schemaFile,
+                score,
+                matchedKeys,
+            });
+        }
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Returns the best detected schema if it can be used without asking: it is the only workflow whose schema declares every key in the file.
+ * Delete & non-delete schemas of the same workflow often share keys, so ties within one workflow are settled by the deletion preference.
+ */
+function unambiguousMatch(matches: SchemaMatch[], content: string): TaskContext | undefined {
+    const varsKeys = topLevelKeys(content);
+    const complete = matches.filter(m => m.matchedKeys.length === varsKeys.length);
+    const contenders = complete.filter(m => complete[0].score - m.score < 0.05);
+    if (contenders.length > 0 && contenders.every(m => m.workflow === contenders[0].workflow)) {
+        const { workflow, playbook, schemaFile } = contenders[0];
+        return { workflow, playbook, schemaFile };
+    }
+    return undefined;
+}
+
+/**
+ * Detects the task of a vars file without asking the user (e.g. when validating files that aren't open).
+ * Returns undefined if no schema matches unambiguously.
+ */
+async function detectVarsFileTask(content: string, relativePath: string, workflowsDir: string = defaultWorkflowsDir()): Promise<TaskContext | undefined> {
+    return unambiguousMatch(await detectVarsFileSchemas(content, relativePath, workflowsDir), content);
+}
+
+/**
+ * Offers the detected schemas of a vars file to the user: uses the best match automatically if it is the only workflow whose
+ * schema declares every key in the file, otherwise asks the user to confirm a match.
+ * Returns the chosen task, or undefined if nothing matched or the user dismissed the quick pick.
+ */
+async function offerDetectedSchema(document: vscode.TextDocument): Promise<TaskContext | undefined> {
+    const relativePath = vscode.workspace.asRelativePath(document.uri, false);
+    const matches = await detectVarsFileSchemas(document.getText(), relativePath);
+    if (matches.length === 0) {
+        return undefined;
+    }
+
+    const detected = unambiguousMatch(matches, document.getText());
+    if (detected) {
+        vscode.window.showInformationMessage(`Detected ${path.basename(detected.schemaFile)} for ${relativePath} from its top-level keys.`);
+        return detected;
+    }
+
+    const picked = await vscode.window.showQuickPick(matches.slice(0, 10).map((m, i) => ({
+        label: path.basename(m.schemaFile),
+        description: `${m.workflow}${i === 0 ? " (best match)" : ""}`,
+        detail: `Matches ${m.matchedKeys.join(', ')}`,
+        match: m
+    })), {
+        placeHolder: `Select the validation schema for ${relativePath}`,
+        matchOnDescription: true
+    });
+    if (!picked) {
+        return undefined;
+    }
+    const { workflow, playbook, schemaFile } = picked.match;
+    return { workflow, playbook, schemaFile };
+}
+
+export { topLevelKeys, schemaDeclaresKeys, detectVarsFileSchemas, unambiguousMatch, detectVarsFileTask, offerDetectedSchema };
@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { getBinding, setBinding } from './bindings.js';
+import { schemaDeclaresKeys, offerDetectedSchema } from './schemaDetection.js';
+
+// workflow, playbook & validation schema identified for a single task (schemaFile is an absolute path, empty if the workflow has no schema)
+export interface TaskContext {
+    workflow: string;
+    playbook: string;
+    schemaFile: string;
+}
+
+// state of a chat conversation, stored in ChatResult.metadata of each generation response
+export interface SessionState {
+    tasks: TaskContext[];
+}
+
+// global state variables shared across session functions
+// last generated session is only a fallback for vars files that have not been bound to a task yet (bindings persist in .nac/bindings.json)
+let lastSession: SessionState | null = null;
+
+/**
+ * Retrieves session state of a chat conversation from the most recent response in its history that recorded one.
+ * Returns null if no response in the conversation identified any tasks.
+ */
+function sessionFromHistory(context: vscode.ChatContext): SessionState | null {
+    for (let i = context.history.length - 1; i >= 0; i--) {
+        const turn = context.history[i];
+        if (turn instanceof vscode.ChatResponseTurn && turn.result.metadata?.session?.tasks?.length) {
+            return turn.result.metadata.session as SessionState;
+        }
+    }
+    return null;
+}
+
+/**
+ * Records the most recently generated session, used for vars files that have not been bound to a task yet.
+ */
+function setLastSession(session: SessionState) {
+    lastSession = session;
+}
+
+/**
+ * Returns the most recently generated session, if any.
+ */
+function getLastSession(): SessionState | null {
+    return lastSession;
+}
+
+/**
+ * Binds a vars file to the task (workflow, playbook, schema) it was written for & persists the binding in the workspace manifest.
+ */
+async function bindDocumentTask(uri: vscode.Uri, task: TaskContext) {
+    await setBinding(uri, task);
+}
+
+/**
+ * Returns the task bound to a vars file, if any.
+ */
+function getDocumentTask(uri: vscode.Uri): TaskContext | undefined {
+    return getBinding(uri);
+}
+
+/**
+ * Lets the user pick one of a session's tasks by its playbook (shown as "Step X: playbook").
+ * Returns the picked task, or undefined if the user dismissed the quick pick.
+ */
+async function pickSessionTask(session: SessionState, placeholder: string): Promise<TaskContext | undefined> {
+    const picked = await vscode.window.showQuickPick(session.tasks.map((task, i) => ({
+        label: `Step ${i + 1}: ${task.playbook}`,
+        description: task.workflow,
+        task
+    })), {
+        placeHolder: placeholder,
+        matchOnDescription: true
+    });
+    return picked?.task;
+}
+
+/**
+ * Returns the tasks of a session whose validation schema declares every top-level key of a vars file.
+ */
+async function matchingSessionTasks(session: SessionState, content: string): Promise<TaskContext[]> {
+    const matching: TaskContext[] = [];
+    for (const task of session.tasks) {
+        if (await schemaDeclaresKeys(task.schemaFile, content)) {
+            matching.push(task);
+        }
+    }
+    return matching;
+}
+
+/**
+ * Resolves the task a vars file should be validated / run against.
+ * Uses the file's own binding first; otherwise the given (or last) session's task if the file's top-level keys match its schema
+ * (asking the user to pick when several match); otherwise the schema is detected from the file's top-level keys,
+ * and only if nothing is detected is the user asked to pick one of the session's tasks.
+ * Binds the result to the file so later validations of the same file keep using it.
+ */
+async function resolveDocumentTask(uri: vscode.Uri, session: SessionState | null = lastSession): Promise<TaskContext | undefined> {
+    const bound = getDocumentTask(uri);
+    if (bound) {
+        return bound;
+    }
+
+    let task: TaskContext | undefined;
+    const document = await vscode.workspace.openTextDocument(uri);
+    // never guess from the session: a task is only used without asking if its schema matches the file
+    const matching = session ? await matchingSessionTasks(session, document.getText()) : [];
+    if (matching.length > 0) {
+        task = matching.length === 1 ? matching[0] : await pickSessionTask({ tasks: matching }, "Select a playbook to validate your vars file against");
+    } else {
+        // detect the schema from the file's top-level keys before falling back to picking one of the session's tasks
+        task = await offerDetectedSchema(document);
+        if (!task && session && session.tasks.length > 0) {
+            task = await pickSessionTask(session, "No schema detected, select a playbook to validate your vars file against");
+        }
+    }
+    if (task) {
+        await bindDocumentTask(uri, task);
+    }
+    return task;
+}
+
+export { sessionFromHistory, setLastSession, getLastSession, bindDocumentTask, getDocumentTask, pickSessionTask, matchingSessionTasks, resolveDocumentTask };
@@ -0,0 +1,164 @@
+import fsPromises from 'fs/promises';
+import * as path from 'path';
+import { parse } from 'yaml';
+import { ObjectRules, parseObjectRules, declaredObjects, referencedObjects, satisfies } from './references.js';
+import { UsecaseStep, parseUsecaseMap, bundledUsecaseMaps } from './usecaseMaps.js';
+
+// task of a multi-step request: the workflow & playbook identified for it
+export interface OrderableTask {
+    workflow: string;
+    playbook: string;
+}
+
+// curated rules of task_dependencies.yml
+export interface DependencyRules {
+    requires: { [workflow: string]: string[] };
+    objects: ObjectRules;
+}
+
+// dependency rules with the position of each workflow in the usecase maps (keyed by rankKey), used to order unrelated tasks
+export interface DependencyGraph {
+    rules: DependencyRules;
+    ranks: Map<string, number>;
+}
+
+// object referenced by the vars file of a step that no earlier step, existing vars file or Catalyst Center itself creates
+export interface UnresolvedReference {
+    step: number;
+    kind: string;
+    value: string;
+}
+
+const RULES_FILE = 'task_dependencies.yml';
+
+/**
+ * Parses the curated dependency rules (task_dependencies.yml), defaulting missing sections & lists.
+ */
+function parseDependencyRules(content: string): DependencyRules {
+    const data = parse(content) || {};
+    return { requires: data.requires || {}, objects: parseObjectRules(data.objects) };
+}
+
+function isDeletion(task: OrderableTask): boolean {
+    return task.playbook.includes('delete');
+}
+
+function rankKey(task: OrderableTask): string {
+    return `${isDeletion(task) ? 'delete' : 'create'}:${task.workflow}`;
+}
+
+/**
+ * Builds the dependency graph from the curated rules & usecase maps: each workflow (creation or deletion) is ranked by its first step in the maps.
+ */
+function buildDependencyGraph(rules: DependencyRules, maps: UsecaseStep[][]): DependencyGraph {
+    const ranks = new Map<string, number>();
+    for (const step of maps.flat()) {
+        const key = rankKey({ workflow: step.playbook.split('/')[0], playbook: path.basename(step.playbook) });
+        if (!ranks.has(key)) {
+            ranks.set(key, ranks.size);
+        }
+    }
+    return { rules, ranks };
+}
+
+/**
+ * Loads the curated dependency rules (task_dependencies.yml) bundled with the extension, or empty rules if they can't be read.
+ */
+async function loadDependencyRules(extensionRoot: string): Promise<DependencyRules> {
+    try {
+        return parseDependencyRules(await fsPromises.readFile(path.join(extensionRoot, RULES_FILE), 'utf8'));
+    } catch (error) {
+        console.error(`Error reading ${RULES_FILE}: `, error);
+        return { requires: {}, objects: {} };
+    }
+}
+
+/**
+ * Loads the dependency graph from task_dependencies.yml & the usecase maps bundled with the extension.
+ * Without the rules file, tasks are only ordered by the usecase maps.
+ */
+async function loadDependencyGraph(extensionRoot: string): Promise<DependencyGraph> {
+    const maps: UsecaseStep[][] = [];
+    for (const mapPath of bundledUsecaseMaps(extensionRoot)) {
+        try {
+            maps.push(parseUsecaseMap(await fsPromises.readFile(mapPath, 'utf8')));
+        } catch (error) {
+            console.error(`Error reading usecase map ${mapPath}: `, error);
+        }
+    }
+    return buildDependencyGraph(await loadDependencyRules(extensionRoot), maps);
+}
+
+/**
+ * Returns the workflows that must run before a workflow, directly or through other required workflows.
+ */
+function requiredWorkflows(rules: DependencyRules, workflow: string, required: Set<string> = new Set()): Set<string> {
+    for (const dependency of rules.requires[workflow] || []) {
+        if (!required.has(dependency)) {
+            required.add(dependency);
+            requiredWorkflows(rules, dependency, required);
+        }
+    }
+    return required;
+}
+
+/**
+ * Sorts the tasks of a multi-step request topologically: a task runs after the tasks of the workflows it requires,
+ * and deletions run before the deletions of the workflows they require. Tasks without a dependency between them are ordered
+ * by their position in the usecase maps, else keep the order they were given in (creations & deletions are never swapped).
+ */
+function orderTasks<T extends OrderableTask>(tasks: T[], graph: DependencyGraph): T[] {
+    const mustPrecede = (a: T, b: T) => {
+        if (a.workflow === b.workflow || isDeletion(a) !== isDeletion(b)) {
+            return false;
+        }
+        return isDeletion(a) ? requiredWorkflows(graph.rules, a.workflow).has(b.workflow) : requiredWorkflows(graph.rules, b.workflow).has(a.workflow);
+    };
+    const precedes = (a: { task: T, index: number }, b: { task: T, index: number }) => {
+        const rankA = graph.ranks.get(rankKey(a.task));
+        const rankB = graph.ranks.get(rankKey(b.task));
+        if (rankA !== undefined && rankB !== undefined && rankA !== rankB && isDeletion(a.task) === isDeletion(b.task)) {
+            return rankA < rankB;
+        }
+        return a.index < b.index;
+    };
+
+    const remaining = tasks.map((task, index) => ({ task, index }));
+    const ordered: T[] = [];
+    while (remaining.length > 0) {
+        const ready = remaining.filter(r => !remaining.some(other => other !== r && mustPrecede(other.task, r.task)));
+        // a dependency cycle in the rules leaves no task ready, so the remaining tasks keep their order
+        const next = ready.length > 0 ? ready.reduce((best, r) => precedes(r, best) ? r : best) : remaining[0];
+        ordered.push(next.task);
+        remaining.splice(remaining.indexOf(next), 1);
+    }
+    return ordered;
+}
+
+/**
+ * Finds objects (sites, tags, device IPs) referenced by the vars file of each step that are not created by the same or an earlier step,
+ * an existing vars file, or Catalyst Center itself (builtin objects such as the Global site).
+ */
+function findUnresolvedReferences(steps: string[], existingVarsFiles: string[], graph: DependencyGraph): UnresolvedReference[] {
+    const available = new Map<string, string[]>(Object.entries(graph.rules.objects).map(([kind, rule]) => [kind, [...rule.builtin]]));
+    const addDeclared = (content: string) => {
+        for (const object of declaredObjects(content, graph.rules.objects)) {
+            available.get(object.kind)?.push(object.name);
+        }
+    };
+    existingVarsFiles.forEach(addDeclared);
+
+    const unresolved: UnresolvedReference[] = [];
+    steps.forEach((content, step) => {
+        addDeclared(content);
+        for (const { kind, name: value } of referencedObjects(content, graph.rules.objects)) {
+            const resolved = (available.get(kind) || []).some(declared => satisfies(declared, value));
+            if (!resolved && !unresolved.some(u => u.step === step && u.kind === kind && u.value === value)) {
+                unresolved.push({ step, kind, value });
+            }
+        }
+    });
+    return unresolved;
+}
+
+export { parseDependencyRules, buildDependencyGraph, loadDependencyRules, loadDependencyGraph, orderTasks, findUnresolvedReferences };
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { BenchmarkClassifier, runClassificationBenchmark, createScriptedModel, computeBenchmarkReport, formatBenchmarkMarkdown, retrievalBaselineResponder } from '../benchmark.js';
+
+// fixed prompts of the headless benchmark run, the second one misclassified by the scripted model
+const CASES = [
+	{ prompt: 'Upgrade the image of all switches', expectedWorkflow: 'swim', expectedPlaybook: 'swim_workflow_playbook.yml' },
+	{ prompt: 'Tag the access switches as Campus', expectedWorkflow: 'tags_manager', expectedPlaybook: 'tags_manager_playbook.yml' },
+	{ prompt: 'Remove the Campus tag', expectedWorkflow: 'tags_manager', expectedPlaybook: 'delete_tags_manager_playbook.yml' },
+];
+
+// scripted answers: workflow questions by keyword (tagging is mistaken for an image upgrade), playbook questions by delete intent
+function scriptedResponder(prompt: string): string {
+	const [question, userPrompt] = prompt.split('\nPrompt: ');
+	if (question.startsWith('Workflow?')) {
+		return /image|access switches/i.test(userPrompt) ? 'swim' : 'tags_manager';
+	}
+	const workflow = question.split(' ')[1];
+	return `${/remove/i.test(userPrompt) ? 'delete_' : ''}${workflow}${workflow === 'swim' ? '_workflow' : ''}_playbook.yml`;
+}
+
+// asks the model each classification question directly, so the benchmark runs without a RAG index or workspace
+async function ask(model: vscode.LanguageModelChat, token: vscode.CancellationToken, question: string, prompt: string): Promise<string> {
+	const response = await model.sendRequest([vscode.LanguageModelChatMessage.User(`${question}\nPrompt: ${prompt}`)], {}, token);
+	let answer = '';
+	for await (const fragment of response.text) {
+		answer += fragment;
+	}
+	return answer.trim();
+}
+
+const MODEL_CLASSIFIER: BenchmarkClassifier = {
+	identifyWorkflow: (model, token, prompt) => ask(model, token, 'Workflow?', prompt),
+	identifyPlaybook: (model, token, prompt, workflow) => ask(model, token, `Playbook? ${workflow}`, prompt),
+};
+
+suite('Classification Benchmark Test Suite', () => {
+	test('computes accuracy, confusion matrix and per-workflow metrics', () => {
+		const report = computeBenchmarkReport([
+			{ prompt: 'a', expectedWorkflow: 'swim', expectedPlaybook: 'swim_workflow_playbook.yml', predictedWorkflow: 'swim', predictedPlaybook: 'swim_workflow_playbook.yml' },
+			{ prompt: 'b', expectedWorkflow: 'swim', expectedPlaybook: 'swim_workflow_playbook.yml', predictedWorkflow: 'tags_manager', predictedPlaybook: 'tags_manager_playbook.yml' },
+			{ prompt: 'c', expectedWorkflow: 'tags_manager', expectedPlaybook: 'delete_tags_manager_playbook.yml', predictedWorkflow: 'tags_manager', predictedPlaybook: 'tags_manager_playbook.yml' },
+		], 'test-model');
+
+		assert.strictEqual(report.total, 3);
+		assert.strictEqual(report.workflowAccuracy, 2 / 3);
+		assert.strictEqual(report.playbookAccuracy, 1 / 3);
+		assert.strictEqual(report.confusionMatrix['swim']['tags_manager'], 1);
+		assert.strictEqual(report.perWorkflow['swim'].recall, 0.5);
+		assert.strictEqual(report.perWorkflow['swim'].precision, 1);
+		assert.strictEqual(report.perWorkflow['tags_manager'].precision, 0.5);
+		assert.ok(formatBenchmarkMarkdown(report).includes('| **swim** | 1 | 1 |'));
+	});
+
+	test('runs the benchmark headlessly with a scripted model over fixed cases', async () => {
+		const source = new vscode.CancellationTokenSource();
+		const report = await runClassificationBenchmark(createScriptedModel(scriptedResponder), source.token, CASES, undefined, MODEL_CLASSIFIER);
+		source.dispose();
+
+		assert.strictEqual(report.model, 'scripted');
+		assert.strictEqual(report.total, 3);
+		assert.deepStrictEqual(report.results.map(r => [r.predictedWorkflow, r.predictedPlaybook]), [
+			['swim', 'swim_workflow_playbook.yml'],
+			['swim', 'swim_workflow_playbook.yml'],
+			['tags_manager', 'delete_tags_manager_playbook.yml'],
+		]);
+		assert.strictEqual(report.workflowAccuracy, 2 / 3);
+		assert.strictEqual(report.playbookAccuracy, 2 / 3);
+		assert.deepStrictEqual(report.confusionMatrix, { swim: { swim: 1 }, tags_manager: { swim: 1, tags_manager: 1 } });
+		assert.strictEqual(report.perWorkflow['tags_manager'].recall, 0.5);
+	});
+
+	test('stops the benchmark once cancelled', async () => {
+		const source = new vscode.CancellationTokenSource();
+		source.cancel();
+		const report = await runClassificationBenchmark(createScriptedModel(scriptedResponder), source.token, CASES, undefined, MODEL_CLASSIFIER);
+		source.dispose();
+		assert.strictEqual(report.total, 0);
+	});
+
+	test('retrieval baseline picks top workflow and delete playbook variant', () => {
+		assert.strictEqual(retrievalBaselineResponder('intro\n Workflow swim: \nchunk\n\nWorkflow tags_manager: \nchunk'), 'swim');
+		assert.strictEqual(
+			retrievalBaselineResponder('The available playbooks are: /w/tags_manager/playbook/tags_manager_playbook.yml,/w/tags_manager/playbook/delete_tags_manager_playbook.yml \n Here is the user prompt: \n Remove the tag'),
+			'delete_tags_manager_playbook.yml'
+		);
+	});
+});
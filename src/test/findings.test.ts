@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { parseYamlLintOutput, parseAnsibleLintOutput, yamlLintFindings, ansibleLintFindings, yamaleFindings, formatFindings, runLintCommand } from '../findings.js';
+import { parseYamaleSchema, validateYamale } from '../yamaleValidator.js';
+
+suite('Findings Test Suite', () => {
+	test('parses yamllint parsable output, including Windows paths', () => {
+		const output = [
+			`data/tags.yml:1:1: [warning] missing document start "---" (document-start)`,
+			`C:\\nac\\data\\tags.yml:4:17: [error] trailing spaces (trailing-spaces)`,
+			`data/tags.yml:6:3: [error] syntax error: expected <block end>, but found '-'`,
+			``,
+		].join('\n');
+		assert.deepStrictEqual(parseYamlLintOutput(output), [
+			{ tool: 'yamllint', rule: 'document-start', severity: 'warning', line: 1, column: 1, message: `missing document start "---"` },
+			{ tool: 'yamllint', rule: 'trailing-spaces', severity: 'error', line: 4, column: 17, message: 'trailing spaces' },
+			{ tool: 'yamllint', rule: '', severity: 'error', line: 6, column: 3, message: `syntax error: expected <block end>, but found '-'` },
+		]);
+	});
+
+	test('parses ansible-lint codeclimate output', () => {
+		const output = JSON.stringify([
+			{
+				type: 'issue',
+				check_name: 'yaml[truthy]',
+				categories: ['formatting', 'yaml'],
+				severity: 'minor',
+				description: 'Truthy value should be one of [false, true]',
+				location: { path: 'data/tags.yml', positions: { begin: { line: 5, column: 20 } } },
+			},
+			{
+				type: 'issue',
+				check_name: 'load-failure[filenotfounderror]',
+				severity: 'blocker',
+				description: 'No such file or directory',
+				location: { path: 'data/tags.yml', lines: { begin: 1 } },
+			},
+		]);
+		assert.deepStrictEqual(parseAnsibleLintOutput(output), [
+			{ tool: 'ansible-lint', rule: 'yaml[truthy]', severity: 'warning', line: 5, column: 20, message: 'Truthy value should be one of [false, true]' },
+			{ tool: 'ansible-lint', rule: 'load-failure[filenotfounderror]', severity: 'error', line: 1, column: 1, message: 'No such file or directory' },
+		]);
+		assert.deepStrictEqual(parseAnsibleLintOutput(""), []);
+		assert.strictEqual(parseAnsibleLintOutput("Failed to load configuration"), undefined);
+	});
+
+	test('reports linters that fail without parsable output as lint failures', () => {
+		const crash = { exitCode: 1, stdout: "", stderr: "Traceback (most recent call last):\nModuleNotFoundError: No module named 'yaml'\n" };
+		assert.deepStrictEqual(yamlLintFindings(crash), [
+			{ tool: 'yamllint', rule: 'lint-failure', severity: 'error', line: 1, column: 1, message: "yamllint failed with exit code 1: Traceback (most recent call last):\nModuleNotFoundError: No module named 'yaml'" },
+		]);
+		assert.deepStrictEqual(ansibleLintFindings({ exitCode: 0, stdout: "Failed to load configuration", stderr: "" }).map(f => [f.rule, f.message]), [
+			['lint-failure', "ansible-lint failed with exit code 0: Failed to load configuration"],
+		]);
+		assert.deepStrictEqual(ansibleLintFindings({ exitCode: 3, stdout: "[]", stderr: "invalid option" }).map(f => f.rule), ['lint-failure']);
+	});
+
+	test('keeps findings of linters that exit with a non-zero code after linting', () => {
+		assert.deepStrictEqual(yamlLintFindings({ exitCode: 0, stdout: "", stderr: "" }), []);
+		assert.deepStrictEqual(yamlLintFindings({ exitCode: 1, stdout: "data/tags.yml:4:17: [error] trailing spaces (trailing-spaces)\n", stderr: "" }).map(f => f.rule), ['trailing-spaces']);
+		assert.deepStrictEqual(ansibleLintFindings({ exitCode: 0, stdout: "[]", stderr: "" }), []);
+	});
+
+	test('runs lint commands with their exit code & stderr', async () => {
+		const result = await runLintCommand(`"${process.execPath}" -e "process.stderr.write('config error'); process.exit(3)"`);
+		assert.deepStrictEqual(result, { exitCode: 3, stdout: "", stderr: "config error" });
+	});
+
+	test('converts Yamale errors into findings with rules & source ranges', () => {
+		const schema = parseYamaleSchema(`name: str()\nstate: enum('merged', 'deleted', required=False)\n`);
+		const findings = yamaleFindings(validateYamale(schema, `state: present\n`));
+		assert.deepStrictEqual(findings.map(f => [f.rule, f.line, f.column, f.endLine, f.endColumn]), [
+			['required-field', 1, 1, 1, 15],
+			['enum', 1, 8, 1, 15],
+		]);
+		assert.strictEqual(formatFindings(findings.slice(1)), `1:8 [enum] error: ${findings[1].message}`);
+	});
+});
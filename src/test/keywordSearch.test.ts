@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { tokenize, buildKeywordIndex, searchKeywordIndex } from '../keywordSearch.js';
+
+suite('Keyword Search Test Suite', () => {
+	test('tokenizes playbook file names into terms', () => {
+		assert.deepStrictEqual(tokenize('delete_tags_manager_playbook.yml'), ['delete', 'tags', 'manager', 'playbook', 'yml']);
+	});
+
+	test('ranks documents containing rare query terms first', () => {
+		const index = buildKeywordIndex([
+			'Create sites, buildings and floors in the site hierarchy',
+			'SWIM: upgrade device software images',
+			'ICAP intelligent capture sessions for wireless clients',
+		]);
+		const results = searchKeywordIndex(index, 'Deploy an ICAP session', 3);
+		assert.strictEqual(results[0][0], 2);
+		assert.strictEqual(results.length, 1);
+		assert.deepStrictEqual(searchKeywordIndex(index, 'ICAP', 3, (id) => id !== 2), []);
+	});
+});
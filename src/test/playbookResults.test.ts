@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { summarizeJobEvents, taskLogLines } from '../playbookResults.js';
+
+// ansible-runner job events of a run with two tasks on one host, the second failing
+const EVENTS = [
+	{ counter: 1, event: 'playbook_on_start', event_data: {} },
+	{ counter: 2, event: 'playbook_on_task_start', event_data: { task: 'Gathering Facts', task_action: 'gather_facts', task_uuid: 't1', play: 'Tags Manager' } },
+	{ counter: 3, event: 'runner_on_ok', event_data: { host: 'catalyst_center220', task_uuid: 't1', duration: 1.5, res: { changed: false } } },
+	{ counter: 4, event: 'playbook_on_task_start', event_data: { task: 'Create tags', task_action: 'cisco.dnac.tags_workflow_manager', task_uuid: 't2', play: 'Tags Manager' } },
+	{ counter: 5, event: 'runner_on_failed', event_data: { host: 'catalyst_center220', task_uuid: 't2', start: '2026-10-18T10:00:00.000Z', end: '2026-10-18T10:00:04.250Z', res: { msg: 'Tag name is required\n' } } },
+	{ counter: 6, event: 'playbook_on_task_start', event_data: { task: 'Never runs', task_action: 'debug', task_uuid: 't3', play: 'Tags Manager' } },
+	{ counter: 7, event: 'playbook_on_stats', event_data: { ok: { catalyst_center220: 1 }, failures: { catalyst_center220: 1 }, changed: {}, dark: {}, skipped: {}, rescued: {}, ignored: {} } },
+];
+
+suite('Playbook Results Test Suite', () => {
+	test('summarizes task results per host from ansible-runner job events', () => {
+		const { tasks } = summarizeJobEvents(EVENTS);
+		assert.deepStrictEqual(tasks.map(t => [t.name, t.status, t.durationSeconds]), [
+			['Gathering Facts', 'ok', 1.5],
+			['Create tags', 'failed', 4.25],
+		]);
+		assert.deepStrictEqual(tasks[1].hosts, [{ host: 'catalyst_center220', status: 'failed', durationSeconds: 4.25, message: 'Tag name is required' }]);
+	});
+
+	test('builds the PLAY RECAP from playbook stats', () => {
+		const { recap } = summarizeJobEvents(EVENTS);
+		assert.deepStrictEqual(recap, [{ host: 'catalyst_center220', ok: 1, changed: 0, unreachable: 0, failed: 1, skipped: 0, rescued: 0, ignored: 0 }]);
+	});
+
+	test('reports changed results & ignores failures of tasks with ignore_errors', () => {
+		const { tasks } = summarizeJobEvents([
+			{ event: 'playbook_on_task_start', event_data: { task: 'Update', task_uuid: 'u1' } },
+			{ event: 'runner_on_ok', event_data: { host: 'a', task_uuid: 'u1', res: { changed: true } } },
+			{ event: 'runner_on_failed', event_data: { host: 'b', task_uuid: 'u1', ignore_errors: true, res: { msg: 'ignored' } } },
+		]);
+		assert.deepStrictEqual(tasks[0].hosts.map(h => h.status), ['changed', 'ok']);
+		assert.strictEqual(tasks[0].status, 'changed');
+	});
+
+	test('maps task names to the line of their first banner in the Ansible log', () => {
+		const log = [
+			'PLAY [Tags Manager] ************',
+			'',
+			'TASK [Gathering Facts] *********',
+			'ok: [catalyst_center220]',
+			'TASK [Create tags [Campus]] ****',
+			'fatal: [catalyst_center220]: FAILED!',
+			'TASK [Gathering Facts] *********',
+		].join('\n');
+		assert.deepStrictEqual(taskLogLines(log), { 'Gathering Facts': 2, 'Create tags [Campus]': 4 });
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import fs from 'fs';
+import os from 'os';
+import * as path from 'path';
+import { runPlaybookProcess, formatElapsed } from '../playbookRunner.js';
+
+// output channel collecting appended text
+function captureChannel(): { channel: vscode.OutputChannel, text: () => string } {
+	let text = "";
+	const channel = {
+		append: (value: string) => { text += value; },
+		appendLine: (value: string) => { text += `${value}\n`; },
+	} as vscode.OutputChannel;
+	return { channel, text: () => text };
+}
+
+suite('Playbook Runner Test Suite', () => {
+	test('formats elapsed time', () => {
+		assert.strictEqual(formatElapsed(0), "0:00");
+		assert.strictEqual(formatElapsed(65_400), "1:05");
+		assert.strictEqual(formatElapsed(3_723_000), "1:02:03");
+	});
+
+	test('streams stdout & stderr into the output channel and log file', async () => {
+		const logPath = path.join(os.tmpdir(), `nac_runner_${process.pid}.log`);
+		const { channel, text } = captureChannel();
+		const result = await runPlaybookProcess(process.execPath, ['-e', 'console.log("PLAY [test]"); console.error("warning"); process.exit(2)'], {
+			env: process.env,
+			logPath,
+			outputChannel: channel,
+		});
+		assert.strictEqual(result.exitCode, 2);
+		assert.strictEqual(result.cancelled, false);
+		assert.match(text(), /PLAY \[test\]/);
+		assert.match(text(), /warning/);
+		assert.match(fs.readFileSync(logPath, 'utf8'), /PLAY \[test\]/);
+		fs.unlinkSync(logPath);
+	});
+
+	test('stops the process when cancelled', async () => {
+		const logPath = path.join(os.tmpdir(), `nac_runner_cancel_${process.pid}.log`);
+		const { channel } = captureChannel();
+		const source = new vscode.CancellationTokenSource();
+		setTimeout(() => source.cancel(), 500);
+		const result = await runPlaybookProcess(process.execPath, ['-e', 'setTimeout(() => {}, 60000)'], {
+			env: process.env,
+			logPath,
+			outputChannel: channel,
+			token: source.token,
+		});
+		assert.strictEqual(result.cancelled, true);
+		assert.ok(result.durationSeconds < 10);
+		fs.unlinkSync(logPath);
+	});
+});
@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { hashWorkflowFiles, reusableCacheEntry } from '../rag.js';
+
+const FILES = [
+	{ kind: 'readme' as const, path: 'site/README.md', content: 'Create sites, buildings and floors' },
+	{ kind: 'schema' as const, path: 'site/schema/site_schema.yml', content: 'design_sites: list(include("site"))' },
+];
+
+suite('RAG Index Cache Test Suite', () => {
+	test('reuses cached chunks only when workflow files are unchanged', () => {
+		const hash = hashWorkflowFiles(FILES);
+		const entry = { hash, chunks: [] };
+		const cache = { version: 2, model: 'model', commitHash: 'abc123', workflows: { site: entry } };
+		assert.strictEqual(reusableCacheEntry(cache, 'site', hash), entry);
+		assert.strictEqual(reusableCacheEntry(cache, 'tags_manager', hash), undefined);
+		assert.strictEqual(reusableCacheEntry(null, 'site', hash), undefined);
+	});
+
+	test('invalidates cached chunks when files change under the same commit hash', () => {
+		const cache = { version: 2, model: 'model', commitHash: 'abc123', workflows: { site: { hash: hashWorkflowFiles(FILES), chunks: [] } } };
+		const changedFiles = [FILES[0], { ...FILES[1], content: 'design_sites: list(include("area"))' }];
+		assert.notStrictEqual(hashWorkflowFiles(changedFiles), hashWorkflowFiles(FILES));
+		assert.strictEqual(reusableCacheEntry(cache, 'site', hashWorkflowFiles(changedFiles)), undefined);
+	});
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { parseObjectRules, declaredObjects, referencedObjects, satisfies } from '../references.js';
+
+const RULES = parseObjectRules({
+	site: {
+		builtin: ['Global'],
+		created: [{ under: 'design_sites', key: 'name', parent_key: 'parent_name' }],
+		referenced: ['site_name_hierarchy', 'parent_name'],
+	},
+	credential: {
+		created: [{ under: 'device_credentials', key: 'description', within: 'global_credential_details' }],
+		referenced: [{ key: 'description', within: 'assign_credentials_to_site' }],
+	},
+});
+
+suite('References Test Suite', () => {
+	test('extracts declared objects with the range of their name', () => {
+		const content = [
+			'design_sites:',
+			'  - site:',
+			'      building:',
+			'        name: SAN JOSE',
+			'        parent_name: Global/USA',
+			'device_credentials:',
+			'  - global_credential_details:',
+			'      cli_credential:',
+			'        - description: lab-cli',
+			'    assign_credentials_to_site:',
+			'      cli_credential:',
+			'        description: lab-cli',
+			'',
+		].join('\n');
+		assert.deepStrictEqual(declaredObjects(content, RULES), [
+			{ kind: 'site', name: 'Global/USA/SAN JOSE', start: { line: 3, character: 14 }, end: { line: 3, character: 22 } },
+			{ kind: 'credential', name: 'lab-cli', start: { line: 8, character: 23 }, end: { line: 8, character: 30 } },
+		]);
+		assert.deepStrictEqual(referencedObjects(content, RULES).map(r => [r.kind, r.name, r.start.line]), [
+			['site', 'Global/USA', 4],
+			['credential', 'lab-cli', 11],
+		]);
+	});
+
+	test('extracts references from lists and skips Jinja expressions', () => {
+		const content = [
+			'provision_details:',
+			'  - site_name_hierarchy: "Global/USA/SAN JOSE"',
+			'  - site_name_hierarchy: "{{ site }}"',
+			'  - site_name_hierarchy: [Global/USA, Global/Europe]',
+			'',
+		].join('\n');
+		assert.deepStrictEqual(referencedObjects(content, RULES).map(r => r.name), ['Global/USA/SAN JOSE', 'Global/USA', 'Global/Europe']);
+		assert.deepStrictEqual(referencedObjects('provision_details: [unclosed', RULES), []);
+	});
+
+	test('defaults missing lists and leaves out malformed rules', () => {
+		assert.deepStrictEqual(parseObjectRules({
+			tag: {
+				created: [{ under: 'tags_details', key: 'name' }, { under: 'tags_details' }, 'name'],
+				referenced: ['tag_name', { within: 'tags' }],
+			},
+			device: null,
+		}), {
+			tag: { builtin: [], created: [{ under: 'tags_details', key: 'name' }], referenced: [{ key: 'tag_name' }] },
+			device: { builtin: [], created: [], referenced: [] },
+		});
+		assert.deepStrictEqual(parseObjectRules(['site']), {});
+		assert.deepStrictEqual(parseObjectRules(undefined), {});
+	});
+
+	test('matches references to declarations', () => {
+		assert.ok(satisfies('Global/USA/SAN JOSE', 'Global/USA/SAN JOSE'));
+		assert.ok(satisfies('Global/USA/SAN JOSE', 'Global/USA'));
+		assert.ok(!satisfies('Global/USA/SAN JOSE', 'Global/US'));
+		assert.ok(satisfies('10.0.0.1-10.0.0.20', '10.0.0.5'));
+		assert.ok(!satisfies('10.0.0.1-10.0.0.20', '10.0.0.21'));
+	});
+});
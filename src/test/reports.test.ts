@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { toSarif, toJUnit } from '../reports.js';
+import { VarsFileFindings } from '../findings.js';
+
+const RESULTS: VarsFileFindings[] = [
+	{
+		file: 'data/tags.yml',
+		tools: ['yamale', 'yamllint', 'ansible-lint'],
+		findings: [
+			{ tool: 'yamale', rule: 'enum', severity: 'error', line: 5, column: 16, endLine: 5, endColumn: 23, message: "tags_details.0.tag.state: 'present' not in ('merged', 'deleted')" },
+			{ tool: 'yamllint', rule: 'trailing-spaces', severity: 'error', line: 3, column: 9, message: 'trailing spaces' },
+			{ tool: 'ansible-lint', rule: 'yaml[truthy]', severity: 'warning', line: 6, column: 20, message: 'Truthy value should be one of [false, true]' },
+		],
+	},
+	{
+		file: 'data/credentials.yml',
+		tools: ['yamllint'],
+		findings: [],
+	},
+];
+
+suite('Reports Test Suite', () => {
+	test('writes one SARIF run per tool that was run, with rules & regions', () => {
+		const sarif = toSarif(RESULTS) as any;
+		assert.strictEqual(sarif.version, '2.1.0');
+		assert.deepStrictEqual(sarif.runs.map((run: any) => run.tool.driver.name), ['Yamale', 'yamllint', 'ansible-lint']);
+
+		const [yamale, , ansibleLint] = sarif.runs;
+		assert.deepStrictEqual(yamale.tool.driver.rules, [{ id: 'enum' }]);
+		assert.deepStrictEqual(yamale.results[0].locations[0].physicalLocation, {
+			artifactLocation: { uri: 'data/tags.yml', uriBaseId: 'SRCROOT' },
+			region: { startLine: 5, startColumn: 16, endLine: 5, endColumn: 23 },
+		});
+		assert.strictEqual(ansibleLint.results[0].level, 'warning');
+		assert.deepStrictEqual(ansibleLint.results[0].locations[0].physicalLocation.region, { startLine: 6, startColumn: 20 });
+	});
+
+	test('writes JUnit test cases per file & tool, failing on errors and skipping tools that were not run', () => {
+		const junit = toJUnit(RESULTS);
+		assert.match(junit, /<testsuites name="NaC validation" tests="6" failures="2" errors="0" skipped="2">/);
+		assert.match(junit, /<failure message="1 error" type="yamale">5:16 \[enum\] error: tags_details\.0\.tag\.state: &apos;present&apos; not in/);
+		assert.match(junit, /<testcase classname="data\/tags.yml" name="ansible-lint">\n {6}<system-out>6:20 \[yaml\[truthy\]\] warning:/);
+		assert.match(junit, /<testcase classname="data\/credentials.yml" name="Yamale">\n {6}<skipped message="No validation schema/);
+		assert.match(junit, /<testcase classname="data\/credentials.yml" name="yamllint"\/>/);
+	});
+});
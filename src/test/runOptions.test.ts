@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import * as path from 'path';
+import { runOptionArgs, inventoryHosts } from '../runOptions.js';
+
+suite('Run Options Test Suite', () => {
+	test('converts run options into ansible-playbook arguments', () => {
+		assert.deepStrictEqual(runOptionArgs({ check: false, tags: [], skipTags: [], limit: "", verbosity: 3 }), ['-vvv']);
+		assert.deepStrictEqual(runOptionArgs({ check: true, tags: ['sites', 'tags'], skipTags: ['cleanup'], limit: 'catalyst_center220', verbosity: 0 }), [
+			'--check', '--diff', '--tags', 'sites,tags', '--skip-tags', 'cleanup', '--limit', 'catalyst_center220',
+		]);
+	});
+
+	test('lists hosts & groups of a YAML inventory', async () => {
+		const hostsFilePath = path.join(os.tmpdir(), `nac_hosts_${process.pid}.yaml`);
+		fs.writeFileSync(hostsFilePath, [
+			'catalyst_center_hosts:',
+			'  hosts:',
+			'    catalyst_center220:',
+			'      catalyst_center_host: 10.0.0.1',
+			'  children:',
+			'    lab:',
+			'      hosts:',
+			'        catalyst_center_lab:',
+			'',
+		].join('\n'));
+		assert.deepStrictEqual(await inventoryHosts(hostsFilePath), [
+			{ name: 'catalyst_center_hosts', group: true },
+			{ name: 'catalyst_center220', group: false },
+			{ name: 'lab', group: true },
+			{ name: 'catalyst_center_lab', group: false },
+		]);
+		fs.unlinkSync(hostsFilePath);
+		assert.deepStrictEqual(await inventoryHosts(hostsFilePath), []);
+	});
+});
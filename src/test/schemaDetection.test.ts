@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import * as path from 'path';
+import { schemaDeclaresKeys, unambiguousMatch, detectVarsFileTask } from '../schemaDetection.js';
+
+// writes a workflow with the given schemas (file name -> top-level keys) & playbooks under the workflows directory
+function writeWorkflow(workflowsDir: string, workflow: string, schemas: { [file: string]: string[] }, playbooks: string[]) {
+	fs.mkdirSync(path.join(workflowsDir, workflow, 'schema'), { recursive: true });
+	fs.mkdirSync(path.join(workflowsDir, workflow, 'playbook'), { recursive: true });
+	for (const [file, keys] of Object.entries(schemas)) {
+		fs.writeFileSync(path.join(workflowsDir, workflow, 'schema', file), keys.map(key => `${key}: list(include('item'))`).join('\n') + '\n---\nitem:\n  name: str()\n');
+	}
+	for (const playbook of playbooks) {
+		fs.writeFileSync(path.join(workflowsDir, workflow, 'playbook', playbook), '---\n- hosts: localhost\n');
+	}
+}
+
+suite('Schema Detection Test Suite', () => {
+	const workflowsDir = path.join(os.tmpdir(), `nac_workflows_${process.pid}`);
+
+	suiteSetup(() => {
+		writeWorkflow(workflowsDir, 'tags_manager', {
+			'tags_manager_schema.yml': ['tags_details'],
+			'delete_tags_manager_schema.yml': ['tags_details'],
+		}, ['tags_manager_playbook.yml', 'delete_tags_manager_playbook.yml']);
+		writeWorkflow(workflowsDir, 'inventory', {
+			'inventory_schema.yml': ['inventory_details', 'tags_details'],
+		}, ['inventory_playbook.yml', 'inventory_playbook_jinja.yml']);
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(workflowsDir, { recursive: true, force: true });
+	});
+
+	test('checks whether a schema declares every top-level key of a vars file', async () => {
+		const schemaFile = path.join(workflowsDir, 'inventory', 'schema', 'inventory_schema.yml');
+		assert.ok(await schemaDeclaresKeys(schemaFile, 'tags_details: []\n'));
+		assert.ok(!await schemaDeclaresKeys(schemaFile, 'tags_details: []\ndesign_sites: []\n'));
+		assert.ok(!await schemaDeclaresKeys(schemaFile, ''));
+		assert.ok(!await schemaDeclaresKeys('', 'tags_details: []\n'));
+	});
+
+	test('uses a match without asking only if a single workflow declares every key', () => {
+		const match = (workflow: string, score: number, matchedKeys: string[]) => ({ workflow, playbook: `${workflow}_playbook.yml`, schemaFile: `/${workflow}_schema.yml`, score, matchedKeys });
+		const content = 'tags_details: []\ninventory_details: []\n';
+		assert.deepStrictEqual(unambiguousMatch([match('inventory', 1.0, ['tags_details', 'inventory_details']), match('tags_manager', 0.6, ['tags_details'])], content),
+			{ workflow: 'inventory', playbook: 'inventory_playbook.yml', schemaFile: '/inventory_schema.yml' });
+		assert.strictEqual(unambiguousMatch([match('inventory', 1.0, ['tags_details', 'inventory_details']), match('swim', 0.98, ['tags_details', 'inventory_details'])], content), undefined);
+		assert.strictEqual(unambiguousMatch([match('tags_manager', 0.6, ['tags_details'])], content), undefined);
+		assert.strictEqual(unambiguousMatch([], content), undefined);
+	});
+
+	test('detects the non-delete or delete variant of a workflow from the vars file folder', async () => {
+		const content = 'tags_details:\n  - tag:\n      name: Campus\n';
+		assert.deepStrictEqual(await detectVarsFileTask(content, 'data/tags.yml', workflowsDir), {
+			workflow: 'tags_manager',
+			playbook: 'tags_manager_playbook.yml',
+			schemaFile: path.join(workflowsDir, 'tags_manager', 'schema', 'tags_manager_schema.yml'),
+		});
+		assert.deepStrictEqual(await detectVarsFileTask(content, 'data_deletion/tags.yml', workflowsDir), {
+			workflow: 'tags_manager',
+			playbook: 'delete_tags_manager_playbook.yml',
+			schemaFile: path.join(workflowsDir, 'tags_manager', 'schema', 'delete_tags_manager_schema.yml'),
+		});
+	});
+
+	test('detects a workflow only from keys its schemas declare', async () => {
+		assert.deepStrictEqual(await detectVarsFileTask('inventory_details: []\n', 'data/inventory.yml', workflowsDir), {
+			workflow: 'inventory',
+			playbook: 'inventory_playbook.yml',
+			schemaFile: path.join(workflowsDir, 'inventory', 'schema', 'inventory_schema.yml'),
+		});
+		assert.strictEqual(await detectVarsFileTask('design_sites: []\n', 'data/sites.yml', workflowsDir), undefined);
+		assert.strictEqual(await detectVarsFileTask('', 'data/empty.yml', workflowsDir), undefined);
+	});
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { parseDependencyRules, buildDependencyGraph, orderTasks, findUnresolvedReferences } from '../taskOrdering.js';
+
+const RULES = parseDependencyRules([
+	'requires:',
+	'  inventory: [site_hierarchy]',
+	'  provision: [inventory]',
+	'objects:',
+	'  site:',
+	'    builtin: [Global]',
+	'    created:',
+	'      - { under: design_sites, key: name, parent_key: parent_name }',
+	'    referenced: [site_name_hierarchy, parent_name]',
+	'  tag:',
+	'    created:',
+	'      - { under: tags_details, key: name, within: tag }',
+	'    referenced: [tags]',
+	'  device:',
+	'    created:',
+	'      - { under: discovery_details, key: ip_address_list }',
+	'    referenced: [management_ip_address]',
+	'',
+].join('\n'));
+
+const MAPS = [[
+	{ name: 'Users', schemaFile: '', playbook: 'users_and_roles/playbook/users_and_roles_workflow_playbook.yml', dataFile: 'data/users.yml' },
+	{ name: 'Credentials', schemaFile: '', playbook: 'device_credentials/playbook/device_credentials_playbook.yml', dataFile: 'data/credentials.yml' },
+], [
+	{ name: 'RemoveCredentials', schemaFile: '', playbook: 'device_credentials/playbook/delete_device_credentials_playbook.yml', dataFile: 'data_deletion/credentials.yml' },
+	{ name: 'RemoveUsers', schemaFile: '', playbook: 'users_and_roles/playbook/delete_users_and_roles_workflow_playbook.yml', dataFile: 'data_deletion/users.yml' },
+]];
+
+suite('Task Ordering Test Suite', () => {
+	const graph = buildDependencyGraph(RULES, MAPS);
+
+	test('runs required workflows first, transitively', () => {
+		const tasks = [
+			{ workflow: 'provision', playbook: 'provision_workflow_playbook.yml' },
+			{ workflow: 'site_hierarchy', playbook: 'site_hierarchy_playbook.yml' },
+			{ workflow: 'tags_manager', playbook: 'tags_manager_playbook.yml' },
+		];
+		assert.deepStrictEqual(orderTasks(tasks, graph).map(t => t.workflow), ['site_hierarchy', 'provision', 'tags_manager']);
+	});
+
+	test('runs deletions in reverse dependency order', () => {
+		const tasks = [
+			{ workflow: 'site_hierarchy', playbook: 'delete_site_hierarchy_playbook.yml' },
+			{ workflow: 'inventory', playbook: 'delete_inventory_playbook.yml' },
+		];
+		assert.deepStrictEqual(orderTasks(tasks, graph).map(t => t.workflow), ['inventory', 'site_hierarchy']);
+	});
+
+	test('orders unrelated tasks by the usecase maps', () => {
+		const tasks = [
+			{ workflow: 'device_credentials', playbook: 'device_credentials_playbook.yml' },
+			{ workflow: 'users_and_roles', playbook: 'users_and_roles_workflow_playbook.yml' },
+		];
+		assert.deepStrictEqual(orderTasks(tasks, graph).map(t => t.workflow), ['users_and_roles', 'device_credentials']);
+		assert.deepStrictEqual(orderTasks(tasks.map(t => ({ ...t, playbook: `delete_${t.playbook}` })), graph).map(t => t.workflow), ['device_credentials', 'users_and_roles']);
+	});
+
+	test('finds references no earlier step or existing vars file creates', () => {
+		const sites = [
+			'design_sites:',
+			'  - site:',
+			'      area:',
+			'        name: USA',
+			'        parent_name: Global',
+			'    type: area',
+			'  - site:',
+			'      building:',
+			'        name: BLD1',
+			'        parent_name: Global/USA',
+			'    type: building',
+		].join('\n');
+		const provision = [
+			'provision_details:',
+			'  - management_ip_address: 10.0.0.5',
+			'    site_name_hierarchy: Global/USA/BLD1',
+			'  - management_ip_address: 10.0.1.1',
+			'    site_name_hierarchy: Global/Europe',
+			'tags_details:',
+			'  - tag_memberships:',
+			'      tags: [Core]',
+		].join('\n');
+		const discovery = 'discovery_details:\n  - ip_address_list: ["10.0.0.1-10.0.0.20"]\n';
+
+		assert.deepStrictEqual(findUnresolvedReferences([sites, provision], [discovery], graph), [
+			{ step: 1, kind: 'device', value: '10.0.1.1' },
+			{ step: 1, kind: 'site', value: 'Global/Europe' },
+			{ step: 1, kind: 'tag', value: 'Core' },
+		]);
+		// objects must be created by an earlier step
+		assert.deepStrictEqual(findUnresolvedReferences([provision, sites], [discovery], graph).filter(u => u.value === 'Global/USA/BLD1'), [
+			{ step: 0, kind: 'site', value: 'Global/USA/BLD1' },
+		]);
+	});
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { parseUsecaseMap, formatUsecaseMap, generatedSteps, yamlCodeBlocks } from '../usecaseMaps.js';
+
+suite('Use Case Maps Test Suite', () => {
+	test('parses steps of a usecase map in order', () => {
+		const steps = parseUsecaseMap([
+			'# Day 1 Provisioning use case map',
+			'SitesDevicesInventory:',
+			'  schema_file: "inventory/schema/inventory_schema.yml"',
+			'  playbook: "inventory/playbook/inventory_playbook.yml"',
+			'  data_file: "data/site_inventory.yml"',
+			'',
+			'SitesDevicesProvision:',
+			'  schema_file: "provision/schema/provision_workflow_schema.yml"',
+			'  playbook: "provision/playbook/provision_workflow_playbook.yml"',
+			'  data_file: "data/site_devices_provision.yml"',
+			'',
+		].join('\n'));
+		assert.deepStrictEqual(steps, [
+			{ name: 'SitesDevicesInventory', schemaFile: 'inventory/schema/inventory_schema.yml', playbook: 'inventory/playbook/inventory_playbook.yml', dataFile: 'data/site_inventory.yml' },
+			{ name: 'SitesDevicesProvision', schemaFile: 'provision/schema/provision_workflow_schema.yml', playbook: 'provision/playbook/provision_workflow_playbook.yml', dataFile: 'data/site_devices_provision.yml' },
+		]);
+	});
+
+	test('leaves out entries without a playbook or data file', () => {
+		const steps = parseUsecaseMap([
+			'Sites:',
+			'  playbook: "site/playbook/site_playbook.yml"',
+			'  data_file: "data/sites.yml"',
+			'Notes: "not a step"',
+			'Devices:',
+			'  schema_file: "inventory/schema/inventory_schema.yml"',
+			'',
+		].join('\n'));
+		assert.deepStrictEqual(steps.map(s => s.name), ['Sites']);
+		assert.strictEqual(steps[0].schemaFile, '');
+	});
+
+	test('throws on invalid YAML', () => {
+		assert.throws(() => parseUsecaseMap('Sites: [unclosed'));
+	});
+
+	test('formats steps as a usecase map that parses back', () => {
+		const steps = [
+			{ name: 'CreateSites', schemaFile: 'site/schema/site_schema.yml', playbook: 'site/playbook/site_playbook.yml', dataFile: 'data/site.yml', comment: 'Create Sites' },
+			{ name: 'AssignTags', schemaFile: '', playbook: 'tags_manager/playbook/tags_manager_playbook.yml', dataFile: 'data/tags_manager.yml' },
+		];
+		const content = formatUsecaseMap(steps, 'Generated map');
+		assert.ok(content.startsWith('# Generated map\n\n# Create Sites\nCreateSites:\n  schema_file: "site/schema/site_schema.yml"\n'));
+		assert.deepStrictEqual(parseUsecaseMap(content), steps.map(({ comment, ...step }) => step));
+	});
+
+	test('pairs code blocks & step titles of a multi-task response with its tasks', () => {
+		const tasks = [
+			{ workflow: 'site', playbook: 'site_playbook.yml', schemaFile: '/ws/workflows/site/schema/site_schema.yml' },
+			{ workflow: 'tags_manager', playbook: 'tags_manager_playbook.yml', schemaFile: '' },
+		];
+		const response = [
+			'**STEP 1: Create Hawaii Site**',
+			'```yaml',
+			'---',
+			'design_sites:',
+			'  - site: {}',
+			'```',
+			'_____',
+			'**STEP 2: Create and Assign Tags**',
+			'```yaml',
+			'---',
+			'tags_details: []',
+			'```',
+		].join('\n');
+		assert.deepStrictEqual(generatedSteps(response, tasks), [
+			{ title: 'Create Hawaii Site', task: tasks[0], content: '---\ndesign_sites:\n  - site: {}\n' },
+			{ title: 'Create and Assign Tags', task: tasks[1], content: '---\ntags_details: []\n' },
+		]);
+		assert.strictEqual(generatedSteps(response, tasks.slice(0, 1)), undefined);
+	});
+
+	test('extracts YAML code blocks of a chat response', () => {
+		const response = 'Use `site_playbook.yml`:\n```yaml\n---\ndesign_sites: []\n\n```\nand\n```YML\nkey: value```\n```json\n{}\n```';
+		assert.deepStrictEqual(yamlCodeBlocks(response), ['---\ndesign_sites: []\n', 'key: value\n']);
+	});
+});
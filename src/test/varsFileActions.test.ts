@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import * as path from 'path';
+import { varsFileFolders, defaultVarsFileName } from '../varsFileActions.js';
+
+suite('Vars File Actions Test Suite', () => {
+	test('offers data_deletion/ first for delete playbooks', () => {
+		assert.deepStrictEqual(varsFileFolders('delete_tags_manager_playbook.yml'), ['data_deletion', 'data']);
+		assert.deepStrictEqual(varsFileFolders('tags_manager_playbook.yml'), ['data', 'data_deletion']);
+	});
+
+	test('names a new vars file after its workflow without overwriting existing files', () => {
+		const rootPath = path.join(os.tmpdir(), `nac_vars_actions_${process.pid}`);
+		fs.mkdirSync(path.join(rootPath, 'data'), { recursive: true });
+		fs.writeFileSync(path.join(rootPath, 'data', 'tags_manager.yml'), 'tags_details: []\n');
+		try {
+			assert.strictEqual(defaultVarsFileName(rootPath, 'data', 'tags_manager'), 'tags_manager_2.yml');
+			assert.strictEqual(defaultVarsFileName(rootPath, 'data_deletion', 'tags_manager'), 'tags_manager.yml');
+		} finally {
+			fs.rmSync(rootPath, { recursive: true, force: true });
+		}
+	});
+});
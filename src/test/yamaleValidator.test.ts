@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { parseYamaleSchema, validateYamale, formatYamaleErrors, schemaNodeAtPath, formatSchemaNode } from '../yamaleValidator.js';
+
+const SCHEMA = `tags_details: list(include('tags_details_type'), min=0, max=1000, required=False)
+---
+tags_details_type:
+  tag: include('tag_type', required=False)
+tag_type:
+  name: str(required=True)
+  system_tag: bool(required=False)
+  state: enum('merged', 'deleted', required=False)
+`;
+
+suite('Yamale Validator Test Suite', () => {
+	test('parses validator expressions with positional and keyword arguments', () => {
+		const schema = parseYamaleSchema(SCHEMA);
+		assert.deepStrictEqual(schema.root, {
+			type: 'map',
+			fields: {
+				tags_details: {
+					type: 'validator',
+					name: 'list',
+					args: [{ type: 'validator', name: 'include', args: ['tags_details_type'], kwargs: {} }],
+					kwargs: { min: 0, max: 1000, required: false },
+				},
+			},
+		});
+		assert.deepStrictEqual(Object.keys(schema.includes), ['tags_details_type', 'tag_type']);
+		assert.throws(() => parseYamaleSchema(`name: str(required=False`));
+	});
+
+	test('reports errors with Yamale key paths at their source lines', () => {
+		const errors = validateYamale(parseYamaleSchema(SCHEMA), [
+			'tags_details:',
+			'  - tag:',
+			'      name: Tag1',
+			'      system_tag: yes',
+			'  - tag:',
+			'      state: added',
+			'      color: red',
+		].join('\n'));
+
+		assert.deepStrictEqual(formatYamaleErrors(errors), [
+			'tags_details.1.tag.name: Required field missing',
+			"tags_details.1.tag.state: 'added' not in ('merged', 'deleted')",
+			'tags_details.1.tag.color: Unexpected element',
+		]);
+		assert.deepStrictEqual(errors.map(e => e.start.line), [4, 5, 6]);
+		assert.deepStrictEqual(errors[1].start, { line: 5, character: 13 });
+		assert.deepStrictEqual(errors[1].end, { line: 5, character: 18 });
+	});
+
+	test('suggests fixes for missing required fields and invalid enum values', () => {
+		const errors = validateYamale(parseYamaleSchema(SCHEMA), [
+			'tags_details:',
+			'  - tag:',
+			'      state: added # typo',
+		].join('\n'));
+
+		assert.deepStrictEqual(errors[0].fix, { insert: { position: { line: 2, character: 25 }, text: '\n      name: ""' } });
+		assert.deepStrictEqual(errors[1].fix, { replacements: ['merged', 'deleted'] });
+	});
+
+	test('finds schema of a key path through lists and includes', () => {
+		const schema = parseYamaleSchema(SCHEMA);
+		const node = schemaNodeAtPath(schema, ['tags_details', '-', 'tag', 'state']);
+		assert.strictEqual(node && formatSchemaNode(node), "enum('merged', 'deleted', required=False)");
+		assert.strictEqual(schemaNodeAtPath(schema, ['tags_details', 'tag']), undefined);
+	});
+
+	test('translates Python-only regex syntax and skips patterns that cannot be compiled', () => {
+		const schema = parseYamaleSchema([
+			"hostname: str(matches='(?P<site>[A-Z]{3})-(?P=site)-[0-9]+\\Z')",
+			"serial: regex('(?i)fdo[0-9]+')",
+			"comment: regex('(?x) free  text')",
+			"",
+		].join('\n'));
+		assert.deepStrictEqual(formatYamaleErrors(validateYamale(schema, 'hostname: SJC-SJC-01\nserial: FDO1234\ncomment: anything\n')), []);
+		assert.deepStrictEqual(formatYamaleErrors(validateYamale(schema, 'hostname: SJC-NYC-01\nserial: ABC\ncomment: anything\n')), [
+			"hostname: SJC-NYC-01 does not match regex '(?P<site>[A-Z]{3})-(?P=site)-[0-9]+\\Z'",
+			"serial: 'ABC' is not a regex match.",
+		]);
+	});
+
+	test('accepts empty optional fields and reports empty required ones', () => {
+		const schema = parseYamaleSchema(SCHEMA);
+		assert.deepStrictEqual(validateYamale(schema, 'tags_details:\n'), []);
+		assert.deepStrictEqual(formatYamaleErrors(validateYamale(schema, 'tags_details:\n  - tag:\n      name:\n')), [
+			"tags_details.0.tag.name: 'None' is not a str.",
+		]);
+	});
+});
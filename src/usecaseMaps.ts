@@ -0,0 +1,430 @@
+import * as vscode from 'vscode';
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import * as path from 'path';
+import { parseDocument, isMap, isScalar } from 'yaml';
+import { getAnsibleEnv } from './extension.js';
+import { TaskContext, bindDocumentTask } from './session.js';
+import { runPlaybook } from './playbookRunner.js';
+import { getRunOptions, runOptionArgs } from './runOptions.js';
+import { loadYamaleSchema, validateYamale, formatYamaleErrors } from './yamaleValidator.js';
+
+// step of a usecase map: schema_file & playbook are relative to the workflows folder of the cloned repo, data_file to the workspace root
+export interface UsecaseStep {
+    name: string;
+    schemaFile: string;
+    playbook: string;
+    dataFile: string;
+}
+
+// vars file generated by the multi-task chat flow for one task, with the "STEP X: TITLE" heading of the response
+export interface GeneratedStep {
+    title: string;
+    task: TaskContext;
+    content: string;
+}
+
+export type StepStatus = 'pending' | 'invalid' | 'running' | 'passed' | 'failed' | 'skipped' | 'cancelled';
+
+// status of a step in the running (or last run) usecase map
+interface StepState {
+    step: UsecaseStep;
+    status: StepStatus;
+    detail?: string;
+    durationSeconds?: number;
+}
+
+// tree icon per step status
+const STEP_ICONS: { [status in StepStatus]: vscode.ThemeIcon } = {
+    'pending': new vscode.ThemeIcon('circle-outline'),
+    'invalid': new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground')),
+    'running': new vscode.ThemeIcon('sync~spin'),
+    'passed': new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    'failed': new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed')),
+    'skipped': new vscode.ThemeIcon('debug-step-over', new vscode.ThemeColor('testing.iconSkipped')),
+    'cancelled': new vscode.ThemeIcon('circle-slash'),
+};
+
+// workspace state key of the step to resume each usecase map from (index of the step that failed or was cancelled)
+const RESUME_STEPS_KEY = 'nac-copilot.usecaseMapResumeSteps';
+
+// global state variables shared across usecase map functions
+let extensionPath = "";
+let workspaceState: vscode.Memento | undefined;
+let pipeline: { mapPath: string, steps: StepState[] } | undefined;
+let running = false;
+const treeChanged = new vscode.EventEmitter<StepState | undefined>();
+
+/**
+ * Registers the "Run Use Case Map" command & the tree view showing the status of each step of the running map.
+ */
+function registerUsecaseMaps(context: vscode.ExtensionContext) {
+    extensionPath = context.extensionPath;
+    workspaceState = context.workspaceState;
+    context.subscriptions.push(vscode.window.registerTreeDataProvider('nac-usecase-map', { getTreeItem, getChildren, onDidChangeTreeData: treeChanged.event }));
+    context.subscriptions.push(treeChanged);
+    context.subscriptions.push(vscode.commands.registerCommand('run-usecase-map', runUsecaseMap));
+    context.subscriptions.push(vscode.commands.registerCommand('save-usecase-map', saveUsecaseMap));
+}
+
+/**
+ * Parses the steps of a usecase map (e.g. day0_discovery.yml) in order: top-level keys with schema_file, playbook & data_file.
+ * Entries without a playbook or data_file are left out. Throws if the map isn't valid YAML.
+ */
+function parseUsecaseMap(content: string): UsecaseStep[] {
+    const document = parseDocument(content);
+    if (document.errors.length > 0) {
+        throw new Error(document.errors[0].message);
+    }
+    if (!isMap(document.contents)) {
+        return [];
+    }
+
+    const steps: UsecaseStep[] = [];
+    for (const item of document.contents.items) {
+        const value = isMap(item.value) ? item.value.toJSON() : undefined;
+        if (isScalar(item.key) && value?.playbook && value?.data_file) {
+            steps.push({ name: String(item.key.value), schemaFile: String(value.schema_file || ""), playbook: String(value.playbook), dataFile: String(value.data_file) });
+        }
+    }
+    return steps;
+}
+
+/**
+ * Formats steps as a usecase map in the format of the bundled day0 / day1 / dayN maps, with an optional comment above the map & each step.
+ */
+function formatUsecaseMap(steps: (UsecaseStep & { comment?: string })[], comment?: string): string {
+    const lines = comment ? [`# ${comment}`, ""] : [];
+    for (const step of steps) {
+        if (step.comment) {
+            lines.push(`# ${step.comment}`);
+        }
+        lines.push(`${step.name}:`);
+        if (step.schemaFile) {
+            lines.push(`  schema_file: ${JSON.stringify(step.schemaFile)}`);
+        }
+        lines.push(`  playbook: ${JSON.stringify(step.playbook)}`, `  data_file: ${JSON.stringify(step.dataFile)}`, "");
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Returns the YAML code blocks of a chat response in order, each ending with a newline.
+ */
+function yamlCodeBlocks(response: string): string[] {
+    return [...response.matchAll(/```ya?ml[^\n]*\n([\s\S]*?)```/gi)].map(m => m[1].trimEnd() + '\n');
+}
+
+/**
+ * Pairs the YAML code blocks & "STEP X: TITLE" headings of a multi-task chat response with the tasks identified for it, in order.
+ * Returns undefined if the response doesn't have one code block per task.
+ */
+function generatedSteps(response: string, tasks: TaskContext[]): GeneratedStep[] | undefined {
+    const blocks = yamlCodeBlocks(response);
+    if (tasks.length === 0 || blocks.length !== tasks.length) {
+        return undefined;
+    }
+    const titles = [...response.matchAll(/STEP\s+\d+\s*:\s*([^*\n]+)/g)].map(m => m[1].trim());
+    return tasks.map((task, i) => ({ title: titles[i] || task.workflow, task, content: blocks[i] }));
+}
+
+/**
+ * Converts a step title or workflow into a usecase map step name, e.g. "Create and Assign Tags" or "tags_manager" to CreateAndAssignTags / TagsManager.
+ */
+function stepName(title: string): string {
+    return title.split(/[^A-Za-z0-9]+/).filter(w => w).map(w => w[0].toUpperCase() + w.slice(1)).join('') || "Step";
+}
+
+/**
+ * Returns a workspace-relative path under folder that doesn't exist yet (nor is taken): folder/name.yml, else folder/name_2.yml, ...
+ */
+function uniqueWorkspacePath(folder: string, name: string, taken: Set<string> = new Set(), rootPath: string = vscode.workspace.rootPath || ""): string {
+    for (let i = 1; ; i++) {
+        const relativePath = `${folder}/${name}${i > 1 ? `_${i}` : ""}.yml`;
+        if (!taken.has(relativePath) && !fs.existsSync(path.join(rootPath, relativePath))) {
+            taken.add(relativePath);
+            return relativePath;
+        }
+    }
+}
+
+/**
+ * Saves the vars files generated by a multi-task chat response into data/ or data_deletion/ for delete playbooks (bound to their tasks), and a usecase map in usecase_maps/
+ * running their playbooks in order, then offers to run it.
+ */
+async function saveUsecaseMap(prompt: string, steps: GeneratedStep[]) {
+    if (!vscode.workspace.rootPath) {
+        vscode.window.showErrorMessage("Open a workspace folder to save the vars files & use case map.");
+        return;
+    }
+    const defaultName = prompt.toLowerCase().split(/[^a-z0-9]+/).filter(w => w).slice(0, 6).join('_') || "usecase_map";
+    const name = await vscode.window.showInputBox({
+        prompt: "Name of the use case map (saved as usecase_maps/<name>.yml)",
+        value: defaultName,
+        validateInput: value => !/^[\w-]+$/.test(value) ? "Use letters, digits, _ and - only"
+            : fs.existsSync(path.join(vscode.workspace.rootPath || "", 'usecase_maps', `${value}.yml`)) ? `usecase_maps/${value}.yml already exists` : undefined
+    });
+    if (!name) {
+        return;
+    }
+
+    const taken = new Set<string>();
+    const names = new Set<string>();
+    const mapSteps: (UsecaseStep & { comment?: string })[] = [];
+    try {
+        for (const step of steps) {
+            const folder = step.task.playbook.includes('delete') ? 'data_deletion' : 'data';
+            const dataFile = uniqueWorkspacePath(folder, step.task.workflow, taken);
+            const uri = vscode.Uri.file(path.join(vscode.workspace.rootPath, dataFile));
+            await fsPromises.mkdir(path.dirname(uri.fsPath), { recursive: true });
+            await fsPromises.writeFile(uri.fsPath, step.content, 'utf8');
+            await bindDocumentTask(uri, step.task);
+
+            // step names are map keys, so they must be unique
+            let key = stepName(step.title);
+            for (let i = 2; names.has(key); i++) {
+                key = `${stepName(step.title)}${i}`;
+            }
+            names.add(key);
+            mapSteps.push({
+                name: key,
+                schemaFile: step.task.schemaFile ? path.relative(workflowsDir(), step.task.schemaFile).split(path.sep).join('/') : "",
+                playbook: `${step.task.workflow}/playbook/${step.task.playbook}`,
+                dataFile,
+                comment: step.title
+            });
+        }
+
+        const mapPath = path.join(vscode.workspace.rootPath, 'usecase_maps', `${name}.yml`);
+        await fsPromises.mkdir(path.dirname(mapPath), { recursive: true });
+        await fsPromises.writeFile(mapPath, formatUsecaseMap(mapSteps, `Use case map generated by @assistant for: ${prompt.replace(/\s+/g, ' ').trim()}`), 'utf8');
+        await vscode.window.showTextDocument(vscode.Uri.file(mapPath));
+
+        const folders = [...new Set(mapSteps.map(step => `${step.dataFile.split('/')[0]}/`))].join(' and ');
+        const action = await vscode.window.showInformationMessage(`Saved ${mapSteps.length} vars files to ${folders} and use case map usecase_maps/${name}.yml.`, "Run Use Case Map");
+        if (action) {
+            await vscode.commands.executeCommand('run-usecase-map', mapPath);
+        }
+    } catch (error) {
+        console.error("Error saving use case map: ", error);
+        vscode.window.showErrorMessage(`Failed to save use case map: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Returns paths of the day0 / day1 / dayN usecase maps bundled with the extension, in order.
+ */
+function bundledUsecaseMaps(extensionRoot: string): string[] {
+    return fs.readdirSync(extensionRoot).filter(f => /^day\w+\.yml$/.test(f)).sort().map(f => path.join(extensionRoot, f));
+}
+
+/**
+ * Lists usecase maps: the day0 / day1 / dayN maps bundled with the extension & YAML files in the workspace usecase_maps/ folder.
+ */
+async function listUsecaseMaps(): Promise<{ mapPath: string, bundled: boolean }[]> {
+    const bundled = bundledUsecaseMaps(extensionPath).map(mapPath => ({ mapPath, bundled: true }));
+    const workspaceMaps = (await vscode.workspace.findFiles('usecase_maps/**/*.{yml,yaml}'))
+        .map(uri => uri.fsPath).sort().map(mapPath => ({ mapPath, bundled: false }));
+    return [...workspaceMaps, ...bundled];
+}
+
+function workflowsDir(): string {
+    return `${vscode.workspace.rootPath}/ai-assistant-catalyst-center-ansible-iac/workflows`;
+}
+
+function dataFilePath(step: UsecaseStep): string {
+    return path.resolve(vscode.workspace.rootPath || "", step.dataFile);
+}
+
+/**
+ * Validates the data file of a step against its schema file.
+ * Returns undefined if the step can run, else why it can't (missing data file, or validation errors).
+ * Steps whose schema file isn't in the cloned repo are not blocked, since the playbook validates its input too.
+ */
+async function validateStep(step: UsecaseStep): Promise<string | undefined> {
+    const dataFile = dataFilePath(step);
+    if (!fs.existsSync(dataFile)) {
+        return `Data file ${step.dataFile} not found`;
+    }
+    if (!fs.existsSync(path.join(workflowsDir(), step.playbook))) {
+        return `Playbook ${step.playbook} not found in the cloned repository`;
+    }
+    const schemaFile = path.join(workflowsDir(), step.schemaFile);
+    if (!step.schemaFile || !fs.existsSync(schemaFile)) {
+        return undefined;
+    }
+
+    try {
+        const errors = validateYamale(await loadYamaleSchema(schemaFile), await fsPromises.readFile(dataFile, 'utf8'));
+        return errors.length > 0 ? `${errors.length} validation error${errors.length === 1 ? "" : "s"}:\n${formatYamaleErrors(errors).join('\n')}` : undefined;
+    } catch (error) {
+        return `Validation error: ${error instanceof Error ? error.message : error}`;
+    }
+}
+
+/**
+ * Runs a usecase map as a pipeline: picks the map (unless given) & the step to start from (offering to resume from the step that failed last time),
+ * validates the data file of every step to run against its schema, then runs the playbooks in order, stopping at the first failure.
+ */
+async function runUsecaseMap(mapPath?: string) {
+    if (running) {
+        vscode.window.showWarningMessage("A use case map is already running.");
+        return;
+    }
+
+    const picked = typeof mapPath === 'string' ? { label: path.basename(mapPath), mapPath } : await vscode.window.showQuickPick((await listUsecaseMaps()).map(m => ({
+        label: path.basename(m.mapPath),
+        description: m.bundled ? "bundled" : vscode.workspace.asRelativePath(m.mapPath, false),
+        mapPath: m.mapPath
+    })), { placeHolder: "Select the use case map to run" });
+    if (!picked) {
+        return;
+    }
+
+    let steps: UsecaseStep[];
+    try {
+        steps = parseUsecaseMap(await fsPromises.readFile(picked.mapPath, 'utf8'));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to read use case map ${picked.label}: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+    if (steps.length === 0) {
+        vscode.window.showErrorMessage(`Use case map ${picked.label} has no steps with a playbook and data_file.`);
+        return;
+    }
+
+    // offer to resume from the step that failed or was cancelled last time
+    const resumeSteps = workspaceState?.get<{ [mapPath: string]: number }>(RESUME_STEPS_KEY, {}) || {};
+    const resumeIndex = resumeSteps[picked.mapPath];
+    const stepItems = steps.map((step, index) => ({
+        label: `${index === resumeIndex ? "$(debug-restart) " : ""}Step ${index + 1}: ${step.name}`,
+        description: index === resumeIndex ? "resume (failed or cancelled last run)" : step.playbook,
+        index
+    }));
+    const startItem = await vscode.window.showQuickPick(resumeIndex !== undefined && stepItems[resumeIndex]
+        ? [stepItems[resumeIndex], ...stepItems.filter(i => i.index !== resumeIndex)]
+        : stepItems, { placeHolder: "Select the step to start from" });
+    if (!startItem) {
+        return;
+    }
+
+    const hostsFilePath = `${vscode.workspace.rootPath}/ansible_inventory/catalystcenter_inventory/hosts.yaml`;
+    if (!fs.existsSync(hostsFilePath)) {
+        vscode.window.showErrorMessage("Inventory ansible_inventory/catalystcenter_inventory/hosts.yaml not found. Please create it before running a use case map.");
+        return;
+    }
+
+    pipeline = {
+        mapPath: picked.mapPath,
+        steps: steps.map((step, index) => ({ step, status: index < startItem.index ? 'skipped' : 'pending' }))
+    };
+    treeChanged.fire(undefined);
+    await vscode.commands.executeCommand('nac-usecase-map.focus');
+
+    running = true;
+    try {
+        await runPipeline(pipeline.steps.filter(s => s.status === 'pending'), hostsFilePath, picked.label);
+    } finally {
+        running = false;
+    }
+}
+
+/**
+ * Validates & runs the given steps of the current pipeline in order, updating their status in the tree view.
+ */
+async function runPipeline(states: StepState[], hostsFilePath: string, mapName: string) {
+    // validate every step first, so a bad data file late in the map doesn't leave Catalyst Center half configured
+    for (const state of states) {
+        state.detail = await validateStep(state.step);
+        if (state.detail) {
+            state.status = 'invalid';
+        }
+    }
+    treeChanged.fire(undefined);
+    const invalid = states.filter(s => s.status === 'invalid');
+    if (invalid.length > 0) {
+        vscode.window.showErrorMessage(`${mapName}: ${invalid.length} step${invalid.length === 1 ? "" : "s"} failed validation (${invalid.map(s => s.step.name).join(', ')}). Fix the data files and run the use case map again.`);
+        return;
+    }
+
+    const outputChannel = vscode.window.createOutputChannel('Ansible Playbook Output');
+    outputChannel.show(true);
+
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Running ${mapName}`,
+        cancellable: true
+    }, async (progress, token) => {
+        for (const [i, state] of states.entries()) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            const index = pipeline!.steps.indexOf(state);
+            state.status = 'running';
+            treeChanged.fire(undefined);
+
+            const playbookFilePath = path.join(workflowsDir(), state.step.playbook);
+            const varsFilePath = dataFilePath(state.step);
+            outputChannel.appendLine(`\n=== Step ${index + 1}/${pipeline!.steps.length}: ${state.step.name} ===`);
+            outputChannel.appendLine(`Running playbook: ${state.step.playbook} with vars file: ${state.step.dataFile}\n`);
+
+            const result = await runPlaybook({
+                ansiblePlaybookPath: vscode.workspace.getConfiguration('nac-copilot').get<string>('ansiblePlaybookPath') || 'ansible-playbook',
+                hostsFilePath,
+                playbookFilePath,
+                varsFilePath,
+                extraArgs: runOptionArgs(getRunOptions(varsFilePath)),
+                env: getAnsibleEnv(),
+                logPath: path.join(path.dirname(playbookFilePath), 'ansible_log.log'),
+                outputChannel,
+                progress: { report: value => progress.report({ message: `Step ${i + 1}/${states.length}: ${state.step.name} (${value.message})` }) },
+                token
+            });
+            state.durationSeconds = result.durationSeconds;
+
+            if (result.cancelled || result.exitCode !== 0) {
+                state.status = result.cancelled ? 'cancelled' : 'failed';
+                state.detail = result.cancelled ? "Cancelled" : result.error || `ansible-playbook exited with code ${result.exitCode}`;
+                await setResumeStep(pipeline!.mapPath, index);
+                treeChanged.fire(undefined);
+                if (!result.cancelled) {
+                    vscode.window.showErrorMessage(`${mapName}: step ${index + 1} (${state.step.name}) failed ❌ Later steps were not run.`);
+                }
+                return;
+            }
+            state.status = 'passed';
+            treeChanged.fire(undefined);
+        }
+
+        if (states.every(s => s.status === 'passed')) {
+            await setResumeStep(pipeline!.mapPath, undefined);
+            vscode.window.showInformationMessage(`${mapName}: all steps completed successfully! 👍`);
+        }
+    });
+}
+
+async function setResumeStep(mapPath: string, index: number | undefined) {
+    const resumeSteps = { ...workspaceState?.get<{ [mapPath: string]: number }>(RESUME_STEPS_KEY, {}) };
+    if (index === undefined) {
+        delete resumeSteps[mapPath];
+    } else {
+        resumeSteps[mapPath] = index;
+    }
+    await workspaceState?.update(RESUME_STEPS_KEY, resumeSteps);
+}
+
+function getTreeItem(state: StepState): vscode.TreeItem {
+    const index = pipeline ? pipeline.steps.indexOf(state) : 0;
+    const item = new vscode.TreeItem(`${index + 1}. ${state.step.name}`, vscode.TreeItemCollapsibleState.None);
+    item.description = `${state.status}${state.durationSeconds !== undefined ? ` · ${state.durationSeconds.toFixed(1)}s` : ""}`;
+    item.tooltip = `Playbook: ${state.step.playbook}\nData file: ${state.step.dataFile}\nSchema: ${state.step.schemaFile || "none"}${state.detail ? `\n\n${state.detail}` : ""}`;
+    item.iconPath = STEP_ICONS[state.status];
+    item.command = { command: 'vscode.open', title: "Open Data File", arguments: [vscode.Uri.file(dataFilePath(state.step))] };
+    return item;
+}
+
+function getChildren(state?: StepState): StepState[] {
+    return state || !pipeline ? [] : pipeline.steps;
+}
+
+export { registerUsecaseMaps, parseUsecaseMap, formatUsecaseMap, generatedSteps, yamlCodeBlocks, uniqueWorkspacePath, bundledUsecaseMaps };
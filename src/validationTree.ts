@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { validateVarsFiles } from './annotations.js';
+import { Finding, FindingSeverity, VarsFileFindings } from './findings.js';
+import { findVarsFiles } from './reports.js';
+
+// node of the validation results tree: vars file > severity > finding
+type ValidationTreeNode =
+    { kind: 'file', result: VarsFileFindings } |
+    { kind: 'severity', result: VarsFileFindings, severity: FindingSeverity } |
+    { kind: 'finding', result: VarsFileFindings, finding: Finding };
+
+// severity groups shown under each vars file, in order
+const SEVERITY_GROUPS: { severity: FindingSeverity, label: string, icon: vscode.ThemeIcon }[] = [
+    { severity: 'error', label: "Errors", icon: new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground')) },
+    { severity: 'warning', label: "Warnings", icon: new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground')) },
+    { severity: 'info', label: "Info", icon: new vscode.ThemeIcon('info', new vscode.ThemeColor('problemsInfoIcon.foreground')) },
+];
+
+// global state variables shared across validation tree functions
+let results: VarsFileFindings[] = [];
+const treeChanged = new vscode.EventEmitter<ValidationTreeNode | undefined>();
+
+/**
+ * Registers the "NaC Validation Results" tree view & the command validating every vars file in data/ and data_deletion/ into it.
+ */
+function registerValidationTree(context: vscode.ExtensionContext) {
+    const treeView = vscode.window.createTreeView('nac-validation-results', {
+        treeDataProvider: { getTreeItem, getChildren, onDidChangeTreeData: treeChanged.event },
+        showCollapseAll: true
+    });
+    context.subscriptions.push(treeView, treeChanged);
+    context.subscriptions.push(vscode.commands.registerCommand('validate-all-vars-files', () => validateAllVarsFiles(treeView)));
+}
+
+/**
+ * Validates every vars file in data/ and data_deletion/ (several at a time) against its bound or detected schema,
+ * with Ansible Lint & YAMLlint, showing files in the tree view as they complete.
+ */
+async function validateAllVarsFiles(treeView: vscode.TreeView<ValidationTreeNode>) {
+    const uris = await findVarsFiles(['data', 'data_deletion']);
+    if (uris.length === 0) {
+        vscode.window.showInformationMessage("No vars files found in the data/ or data_deletion/ folders of your workspace.");
+        return;
+    }
+
+    results = [];
+    treeChanged.fire(undefined);
+    await vscode.commands.executeCommand('nac-validation-results.focus');
+
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: "Validating vars files...",
+        cancellable: true
+    }, async (progress, token) => {
+        await validateVarsFiles(uris, result => {
+            results.push(result);
+            results.sort((a, b) => a.file.localeCompare(b.file));
+            treeChanged.fire(undefined);
+            progress.report({ message: `${results.length}/${uris.length} ${result.file}`, increment: 100 / uris.length });
+        }, token);
+    });
+
+    const failed = results.filter(r => r.findings.some(f => f.severity === 'error')).length;
+    treeView.message = `${results.length} vars file${results.length === 1 ? "" : "s"} validated, ${failed} failed`;
+}
+
+function countLabel(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function getTreeItem(node: ValidationTreeNode): vscode.TreeItem {
+    const uri = vscode.Uri.file(path.join(vscode.workspace.rootPath || "", node.result.file));
+
+    if (node.kind === 'file') {
+        const errors = node.result.findings.filter(f => f.severity === 'error').length;
+        const warnings = node.result.findings.filter(f => f.severity === 'warning').length;
+        const item = new vscode.TreeItem(uri, node.result.findings.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        item.description = node.result.findings.length > 0 ? `${countLabel(errors, "error")}, ${countLabel(warnings, "warning")}` : "passed";
+        item.tooltip = `${node.result.file}\n${node.result.task ? `Schema: ${path.basename(node.result.task.schemaFile)} (${node.result.task.workflow})` : "No schema bound or detected, Yamale skipped"}\nTools: ${node.result.tools.join(', ')}`;
+        item.iconPath = errors > 0 ? SEVERITY_GROUPS[0].icon : warnings > 0 ? SEVERITY_GROUPS[1].icon : new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        item.command = { command: 'vscode.open', title: "Open Vars File", arguments: [uri] };
+        return item;
+    }
+
+    if (node.kind === 'severity') {
+        const group = SEVERITY_GROUPS.find(g => g.severity === node.severity)!;
+        const item = new vscode.TreeItem(group.label, vscode.TreeItemCollapsibleState.Expanded);
+        item.description = String(node.result.findings.filter(f => f.severity === node.severity).length);
+        item.iconPath = group.icon;
+        return item;
+    }
+
+    const f = node.finding;
+    const item = new vscode.TreeItem(f.message, vscode.TreeItemCollapsibleState.None);
+    item.description = `${f.tool}${f.rule ? ` ${f.rule}` : ""} [Ln ${f.line}, Col ${f.column}]`;
+    item.tooltip = `${f.tool}${f.rule ? ` (${f.rule})` : ""}: ${f.message}`;
+    // findings without an end position (linters) are selected from their column to the end of the line
+    const selection = new vscode.Range(f.line - 1, f.column - 1, (f.endLine ?? f.line) - 1, f.endColumn !== undefined ? f.endColumn - 1 : Number.MAX_SAFE_INTEGER);
+    item.command = { command: 'vscode.open', title: "Go to Finding", arguments: [uri, { selection }] };
+    return item;
+}
+
+function getChildren(node?: ValidationTreeNode): ValidationTreeNode[] {
+    if (!node) {
+        return results.map(result => ({ kind: 'file', result }));
+    }
+    if (node.kind === 'file') {
+        return SEVERITY_GROUPS
+            .filter(g => node.result.findings.some(f => f.severity === g.severity))
+            .map(g => ({ kind: 'severity', result: node.result, severity: g.severity }));
+    }
+    if (node.kind === 'severity') {
+        return node.result.findings
+            .filter(f => f.severity === node.severity)
+            .sort((a, b) => a.line - b.line || a.column - b.column)
+            .map(finding => ({ kind: 'finding', result: node.result, finding }));
+    }
+    return [];
+}
+
+export { registerValidationTree };
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import * as path from 'path';
+import { isVarsFile } from './bindings.js';
+import { TaskContext, bindDocumentTask } from './session.js';
+import { yamlCodeBlocks, uniqueWorkspacePath } from './usecaseMaps.js';
+
+/**
+ * Registers the commands behind the "Insert into New Vars File" & "Apply to Open File" buttons of generated vars files in chat.
+ */
+function registerVarsFileActions(context: vscode.ExtensionContext) {
+    context.subscriptions.push(vscode.commands.registerCommand('insert-into-new-vars-file', insertIntoNewVarsFile));
+    context.subscriptions.push(vscode.commands.registerCommand('apply-to-open-vars-file', applyToOpenVarsFile));
+}
+
+/**
+ * Adds buttons below a chat response to insert its generated vars file (first YAML code block) into a new vars file or apply it to the open one.
+ * No buttons are added if the response has no YAML code block.
+ */
+function offerVarsFileButtons(stream: vscode.ChatResponseStream, response: string, task: TaskContext) {
+    const content = yamlCodeBlocks(response)[0];
+    if (!content) {
+        return;
+    }
+    stream.button({ command: 'insert-into-new-vars-file', title: "Insert into New Vars File", arguments: [content, task] });
+    stream.button({ command: 'apply-to-open-vars-file', title: "Apply to Open File", arguments: [content, task] });
+}
+
+/**
+ * Returns the folders offered for a new vars file, the default first: data_deletion/ for delete playbooks, data/ otherwise.
+ */
+function varsFileFolders(playbook: string): string[] {
+    return playbook.includes('delete') ? ['data_deletion', 'data'] : ['data', 'data_deletion'];
+}
+
+/**
+ * Returns the default name of a new vars file in folder: the workflow name, suffixed with _2, _3, ... if that file exists.
+ */
+function defaultVarsFileName(rootPath: string, folder: string, workflow: string): string {
+    return path.basename(uniqueWorkspacePath(folder, workflow, new Set(), rootPath));
+}
+
+/**
+ * Creates a vars file with generated YAML under data/ (or data_deletion/ for delete playbooks, the default folder offered first),
+ * binds it to the workflow, playbook & schema it was generated for, and opens it.
+ */
+async function insertIntoNewVarsFile(content: string, task: TaskContext) {
+    const rootPath = vscode.workspace.rootPath;
+    if (!rootPath) {
+        vscode.window.showErrorMessage("Open a workspace folder to create the vars file.");
+        return;
+    }
+
+    const folder = await vscode.window.showQuickPick(varsFileFolders(task.playbook).map(f => ({
+        label: `${f}/`,
+        description: f === 'data' ? "Vars files that create or update objects" : "Vars files that delete objects",
+        folder: f
+    })), { placeHolder: `Select the folder of the new vars file for ${task.playbook}` });
+    if (!folder) {
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        prompt: `Name of the new vars file in ${folder.label}`,
+        value: defaultVarsFileName(rootPath, folder.folder, task.workflow),
+        validateInput: value => !/^[\w.-]+\.ya?ml$/.test(value) ? "Use letters, digits, _, - and . only, ending with .yml or .yaml"
+            : fs.existsSync(path.join(rootPath, folder.folder, value)) ? `${folder.label}${value} already exists` : undefined
+    });
+    if (!name) {
+        return;
+    }
+
+    try {
+        const uri = vscode.Uri.file(path.join(rootPath, folder.folder, name));
+        await fsPromises.mkdir(path.dirname(uri.fsPath), { recursive: true });
+        await fsPromises.writeFile(uri.fsPath, content, 'utf8');
+        await bindDocumentTask(uri, task);
+        await vscode.window.showTextDocument(uri);
+        vscode.window.showInformationMessage(`Created ${folder.label}${name} bound to ${task.playbook}. Use Validate & Lint to check it, then Run Playbook.`);
+    } catch (error) {
+        console.error("Error creating vars file: ", error);
+        vscode.window.showErrorMessage(`Failed to create vars file: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Replaces the content of the vars file open in the editor with generated YAML, shown as a refactor preview (diff) to review first.
+ * Once applied, the vars file is bound to the workflow, playbook & schema the YAML was generated for.
+ */
+async function applyToOpenVarsFile(content: string, task: TaskContext) {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document || !['yaml', 'ansible'].includes(document.languageId)) {
+        vscode.window.showErrorMessage("Open the vars file to apply the generated YAML to, or use Insert into New Vars File.");
+        return;
+    }
+    if (content.trim() === document.getText().trim()) {
+        vscode.window.showInformationMessage("The open file already contains the generated YAML.");
+        return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const fullRange = new vscode.Range(0, 0, document.lineCount - 1, document.lineAt(document.lineCount - 1).text.length);
+    edit.replace(document.uri, fullRange, content, {
+        label: "Generated vars file",
+        description: `@assistant: ${task.playbook}`,
+        needsConfirmation: true
+    });
+    if (!await vscode.workspace.applyEdit(edit)) {
+        return;
+    }
+
+    // only vars files in data/ or data_deletion/ can be bound (see bindings.ts)
+    if (isVarsFile(document.uri)) {
+        await bindDocumentTask(document.uri, task);
+    }
+}
+
+export { registerVarsFileActions, offerVarsFileButtons, varsFileFolders, defaultVarsFileName };
@@ -0,0 +1,839 @@
+import { isIP } from 'net';
+import fsPromises from 'fs/promises';
+import { parseAllDocuments, isAlias, isMap, isScalar, isSeq, Document, LineCounter, Node, Pair, YAMLMap } from 'yaml';
+
+// validator call parsed from a Yamale schema expression, e.g. list(include('tag_type'), required=False)
+export interface Validator {
+    type: 'validator';
+    name: string;
+    args: ValidatorArg[];
+    kwargs: { [key: string]: ValidatorArg };
+}
+
+// static map / list written directly in the schema (e.g. fields of an include definition)
+export interface StaticMap {
+    type: 'map';
+    fields: { [key: string]: SchemaNode };
+}
+
+export interface StaticList {
+    type: 'list';
+    items: SchemaNode[];
+}
+
+export type SchemaNode = Validator | StaticMap | StaticList;
+export type ValidatorArg = SchemaNode | string | number | boolean | null;
+
+// parsed Yamale schema: main schema (first YAML document) & include definitions (following documents)
+export interface YamaleSchema {
+    root: SchemaNode;
+    includes: { [name: string]: SchemaNode };
+}
+
+// zero-based source position, matching vscode.Position
+export interface SourcePosition {
+    line: number;
+    character: number;
+}
+
+// edit that fixes a validation error: insert text for a missing field, or replace the error range with one of the allowed values
+export interface YamaleFix {
+    insert?: { position: SourcePosition, text: string };
+    replacements?: string[];
+}
+
+// single validation error with its Yamale key path (e.g. tags_details.0.tag.name) & exact source range in the vars file
+export interface YamaleError {
+    path: string;
+    message: string;
+    start: SourcePosition;
+    end: SourcePosition;
+    fix?: YamaleFix;
+}
+
+// token of a validator expression
+interface ExpressionToken {
+    kind: 'identifier' | 'string' | 'number' | 'punctuation';
+    value: string | number;
+}
+
+// state shared while validating a single vars file document
+interface ValidationContext {
+    schema: YamaleSchema;
+    document: Document.Parsed;
+    source: string;
+    lineCounter: LineCounter;
+    errors: YamaleError[];
+}
+
+// source offsets [start, end) an error is reported at
+type OffsetRange = [number, number];
+
+const MAC_ADDRESS = /^([0-9a-fA-F]{2}[:-]){5}[0-9a-fA-F]{2}$|^([0-9a-fA-F]{4}\.){2}[0-9a-fA-F]{4}$/;
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+// path step standing for an item of a list, e.g. ["tags_details", "-", "tag"] (see schemaNodeAtPath)
+const LIST_ITEM = '-';
+
+// parsed schemas by file path, reparsed when the schema file changes (e.g. after the GitHub repo is pulled again)
+const schemaCache = new Map<string, { mtimeMs: number, schema: YamaleSchema }>();
+
+// compiled regexes of str(matches=...) & regex() validators by pattern & flags, null if the pattern can't be compiled in JavaScript
+const patternCache = new Map<string, RegExp | null>();
+
+// nesting depth up to which placeholders of missing fields are expanded (includes may be recursive)
+const MAX_PLACEHOLDER_DEPTH = 6;
+const STRING_ESCAPES: { [c: string]: string } = { n: '\n', t: '\t', '\\': '\\', "'": "'", '"': '"' };
+
+/**
+ * Splits a validator expression into identifiers, string & number literals, and punctuation.
+ * Python raw string prefixes (r'...') are accepted since regex() patterns are often written that way.
+ */
+function tokenizeExpression(expression: string): ExpressionToken[] {
+    const tokens: ExpressionToken[] = [];
+    let i = 0;
+    while (i < expression.length) {
+        const c = expression[i];
+        if (/\s/.test(c)) {
+            i += 1;
+        } else if ('(),=[]'.includes(c)) {
+            tokens.push({ kind: 'punctuation', value: c });
+            i += 1;
+        } else if (c === "'" || c === '"' || (/[rR]/.test(c) && /['"]/.test(expression[i + 1] || ""))) {
+            const raw = c === 'r' || c === 'R';
+            const quote = raw ? expression[i + 1] : c;
+            i += raw ? 2 : 1;
+            let value = "";
+            while (i < expression.length && expression[i] !== quote) {
+                if (expression[i] === '\\' && i + 1 < expression.length) {
+                    const next = expression[i + 1];
+                    // like Python, raw strings & unknown escapes (e.g. \d in regex patterns) keep their backslash
+                    value += !raw && next in STRING_ESCAPES ? STRING_ESCAPES[next] : '\\' + next;
+                    i += 2;
+                } else {
+                    value += expression[i];
+                    i += 1;
+                }
+            }
+            if (i >= expression.length) {
+                throw new Error(`Unterminated string in validator expression: ${expression}`);
+            }
+            tokens.push({ kind: 'string', value });
+            i += 1;
+        } else {
+            const match = expression.slice(i).match(/^-?\d+(\.\d+)?/) || expression.slice(i).match(/^[A-Za-z_]\w*/);
+            if (!match) {
+                throw new Error(`Unexpected character '${c}' in validator expression: ${expression}`);
+            }
+            tokens.push(/^-?\d/.test(match[0]) ? { kind: 'number', value: Number(match[0]) } : { kind: 'identifier', value: match[0] });
+            i += match[0].length;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Parses a single Yamale validator expression, e.g. "enum('add', 'delete', required=False)".
+ */
+function parseValidatorExpression(expression: string): Validator {
+    const tokens = tokenizeExpression(expression);
+    let position = 0;
+
+    const expect = (value: string) => {
+        const token = tokens[position++];
+        if (!token || token.value !== value) {
+            throw new Error(`Expected '${value}' in validator expression: ${expression}`);
+        }
+    };
+
+    const parseArgument = (): ValidatorArg => {
+        const token = tokens[position++];
+        if (!token) {
+            throw new Error(`Unexpected end of validator expression: ${expression}`);
+        }
+        if (token.kind === 'string' || token.kind === 'number') {
+            return token.value;
+        }
+        if (token.kind === 'identifier') {
+            if (tokens[position]?.value === '(') {
+                position -= 1;
+                return parseCall();
+            }
+            if (token.value === 'True' || token.value === 'False') {
+                return token.value === 'True';
+            }
+            if (token.value === 'None') {
+                return null;
+            }
+        }
+        throw new Error(`Unexpected '${token.value}' in validator expression: ${expression}`);
+    };
+
+    const parseCall = (): Validator => {
+        const name = tokens[position++];
+        if (!name || name.kind !== 'identifier') {
+            throw new Error(`Expected validator name in validator expression: ${expression}`);
+        }
+        expect('(');
+        const validator: Validator = { type: 'validator', name: String(name.value), args: [], kwargs: {} };
+        while (tokens[position] && tokens[position].value !== ')') {
+            // keyword argument (e.g. required=False) or positional argument
+            if (tokens[position].kind === 'identifier' && tokens[position + 1]?.value === '=') {
+                const key = String(tokens[position].value);
+                position += 2;
+                validator.kwargs[key] = parseArgument();
+            } else {
+                validator.args.push(parseArgument());
+            }
+            if (tokens[position]?.value === ',') {
+                position += 1;
+            }
+        }
+        expect(')');
+        return validator;
+    };
+
+    const validator = parseCall();
+    if (position < tokens.length) {
+        throw new Error(`Unexpected '${tokens[position].value}' in validator expression: ${expression}`);
+    }
+    return validator;
+}
+
+/**
+ * Converts a value of the schema YAML into a schema node: strings are validator expressions, maps & lists are static.
+ */
+function toSchemaNode(value: unknown, path: string): SchemaNode {
+    if (typeof value === 'string') {
+        return parseValidatorExpression(value);
+    }
+    if (Array.isArray(value)) {
+        return { type: 'list', items: value.map((item, i) => toSchemaNode(item, `${path}.${i}`)) };
+    }
+    if (value && typeof value === 'object') {
+        const fields: { [key: string]: SchemaNode } = {};
+        for (const [key, field] of Object.entries(value)) {
+            fields[key] = toSchemaNode(field, path ? `${path}.${key}` : key);
+        }
+        return { type: 'map', fields };
+    }
+    throw new Error(`Invalid schema definition at '${path}': expected a validator expression, map or list.`);
+}
+
+/**
+ * Parses a Yamale schema file: the first YAML document is the main schema and following documents hold include definitions.
+ * Throws an error if the schema YAML or one of its validator expressions is invalid.
+ */
+function parseYamaleSchema(content: string): YamaleSchema {
+    const documents = parseAllDocuments(content);
+    if (!Array.isArray(documents)) {
+        throw new Error("Schema is empty.");
+    }
+    for (const document of documents) {
+        if (document.errors.length > 0) {
+            throw new Error(`Invalid schema YAML: ${document.errors[0].message}`);
+        }
+    }
+
+    const includes: { [name: string]: SchemaNode } = {};
+    for (const document of documents.slice(1)) {
+        const definitions = document.toJS() || {};
+        for (const [name, definition] of Object.entries(definitions)) {
+            includes[name] = toSchemaNode(definition, name);
+        }
+    }
+    return { root: toSchemaNode(documents[0]?.toJS() || {}, ""), includes };
+}
+
+/**
+ * Reads & parses a Yamale schema file, reusing the parsed schema while the file is unchanged.
+ */
+async function loadYamaleSchema(schemaFile: string): Promise<YamaleSchema> {
+    const { mtimeMs } = await fsPromises.stat(schemaFile);
+    const cached = schemaCache.get(schemaFile);
+    if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.schema;
+    }
+    const schema = parseYamaleSchema(await fsPromises.readFile(schemaFile, 'utf8'));
+    schemaCache.set(schemaFile, { mtimeMs, schema });
+    return schema;
+}
+
+/**
+ * Formats a value the way Python prints it, so messages read like the Yamale CLI output (e.g. 'None' is not a str.).
+ */
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return "None";
+    }
+    if (typeof value === 'boolean') {
+        return value ? "True" : "False";
+    }
+    if (value instanceof Date) {
+        return value.toISOString().slice(0, 10);
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
+
+/**
+ * Checks whether a schema node requires its key to be present (validators default to required=True, like Yamale).
+ */
+function isRequired(node: SchemaNode): boolean {
+    return node.type !== 'validator' || node.kwargs.required !== false;
+}
+
+/**
+ * Converts source offsets into a zero-based start & end position.
+ */
+function toPositions(ctx: ValidationContext, range: OffsetRange): { start: SourcePosition, end: SourcePosition } {
+    const position = (offset: number): SourcePosition => {
+        const { line, col } = ctx.lineCounter.linePos(offset);
+        return { line: line - 1, character: col - 1 };
+    };
+    return { start: position(range[0]), end: position(Math.max(range[0], range[1])) };
+}
+
+/**
+ * Returns source range of a node limited to its first line (multi-line maps & lists are reported at their first key / item).
+ */
+function firstLineRange(ctx: ValidationContext, node: Node | null | undefined, fallback: OffsetRange): OffsetRange {
+    if (!node?.range || node.range[1] <= node.range[0]) {
+        return fallback;
+    }
+    const lineEnd = ctx.source.indexOf('\n', node.range[0]);
+    return [node.range[0], lineEnd === -1 ? node.range[1] : Math.min(node.range[1], lineEnd)];
+}
+
+function addError(ctx: ValidationContext, path: (string | number)[], message: string, range: OffsetRange, fix?: YamaleFix) {
+    ctx.errors.push({ path: path.join('.'), message, ...toPositions(ctx, range), ...(fix ? { fix } : {}) });
+}
+
+/**
+ * Formats a schema literal as a YAML scalar, quoting strings that YAML would otherwise read as another type.
+ */
+function yamlScalar(value: ValidatorArg): string {
+    if (typeof value === 'string') {
+        return /^[A-Za-z_/][\w./-]*$/.test(value) && !/^(true|false|yes|no|on|off|null|y|n)$/i.test(value) ? value : JSON.stringify(value);
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'true' : 'false';
+    }
+    return value === null || typeof value === 'object' ? 'null' : String(value);
+}
+
+/**
+ * Returns the schema node an include() refers to, or the node itself.
+ */
+function resolveInclude(schema: YamaleSchema, node: SchemaNode): SchemaNode {
+    if (node.type === 'validator' && node.name === 'include') {
+        return schema.includes[String(node.args[0])] || node;
+    }
+    return node;
+}
+
+/**
+ * Returns the schema node describing a child of a node: a map key, or a list item for LIST_ITEM.
+ * For any() / subset(), the first alternative describing the child is used.
+ */
+function childSchemaNode(schema: YamaleSchema, node: SchemaNode, step: string): SchemaNode | undefined {
+    const resolved = resolveInclude(schema, node);
+    if (resolved.type === 'map') {
+        return step === LIST_ITEM ? undefined : resolved.fields[step];
+    }
+    if (resolved.type === 'list') {
+        return step === LIST_ITEM ? resolved.items[0] : undefined;
+    }
+
+    const alternatives = resolved.args.filter((a): a is SchemaNode => !!a && typeof a === 'object');
+    switch (resolved.name) {
+        case 'list':
+            return step === LIST_ITEM ? alternatives[0] : undefined;
+        case 'map':
+            return step === LIST_ITEM ? undefined : alternatives[0];
+        case 'subset':
+            return step === LIST_ITEM ? alternatives[0] : undefined;
+        case 'any':
+            return alternatives.map(a => childSchemaNode(schema, a, step)).find(child => child !== undefined);
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Finds the schema node describing a key path of a vars file, with list items given as "-" (e.g. ["tags_details", "-", "tag", "name"]).
+ * Returns undefined if the schema doesn't describe the path.
+ */
+function schemaNodeAtPath(schema: YamaleSchema, path: string[]): SchemaNode | undefined {
+    let node: SchemaNode | undefined = schema.root;
+    for (const step of path) {
+        node = node ? childSchemaNode(schema, node, step) : undefined;
+    }
+    return node;
+}
+
+/**
+ * Formats a schema node the way it is written in the schema file, e.g. enum('merged', 'deleted', required=False).
+ */
+function formatSchemaNode(node: SchemaNode): string {
+    if (node.type !== 'validator') {
+        return node.type;
+    }
+    const formatArg = (a: ValidatorArg): string => typeof a === 'string' ? `'${a}'` : a && typeof a === 'object' ? formatSchemaNode(a) : formatValue(a);
+    const args = [...node.args.map(formatArg), ...Object.entries(node.kwargs).map(([k, v]) => `${k}=${formatArg(v)}`)];
+    return `${node.name}(${args.join(', ')})`;
+}
+
+/**
+ * Builds "key: value" lines for the required fields of a static map, for use as placeholders of a missing map.
+ */
+function requiredFieldLines(schema: YamaleSchema, map: StaticMap, indent: number, depth: number): string[] {
+    return Object.entries(map.fields)
+        .filter(([, field]) => isRequired(field))
+        .map(([key, field]) => `${key}:${placeholderValue(schema, field, indent, depth + 1)}`);
+}
+
+/**
+ * Builds a schema-correct placeholder for a missing field, as the text following "key:".
+ * Scalars get a typed empty value (e.g. "", 0, false, first enum value); maps & lists of maps are expanded into their required fields.
+ */
+function placeholderValue(schema: YamaleSchema, node: SchemaNode, indent: number, depth: number = 0): string {
+    const resolved = resolveInclude(schema, node);
+    const pad = (n: number) => ' '.repeat(n);
+
+    if (resolved.type === 'map') {
+        const lines = depth < MAX_PLACEHOLDER_DEPTH ? requiredFieldLines(schema, resolved, indent + 2, depth) : [];
+        return lines.length > 0 ? `\n${lines.map(l => pad(indent + 2) + l).join('\n')}` : " {}";
+    }
+    if (resolved.type === 'list') {
+        return " []";
+    }
+
+    switch (resolved.name) {
+        case 'int':
+        case 'num':
+            return ` ${typeof resolved.kwargs.min === 'number' ? resolved.kwargs.min : 0}`;
+        case 'bool':
+            return " false";
+        case 'null':
+            return "";
+        case 'enum':
+            return ` ${yamlScalar(resolved.args[0] ?? "")}`;
+        case 'any':
+        case 'subset': {
+            const first = resolved.args.find((a): a is SchemaNode => !!a && typeof a === 'object');
+            return first ? placeholderValue(schema, first, indent, depth) : ' ""';
+        }
+        case 'list': {
+            const item = resolved.args.find((a): a is SchemaNode => !!a && typeof a === 'object');
+            const itemSchema = item ? resolveInclude(schema, item) : undefined;
+            if (!itemSchema || depth >= MAX_PLACEHOLDER_DEPTH) {
+                return " []";
+            }
+            if (itemSchema.type === 'map') {
+                const lines = requiredFieldLines(schema, itemSchema, indent + 4, depth);
+                return lines.length > 0 ? `\n${pad(indent + 2)}- ${lines.map((l, i) => (i > 0 ? pad(indent + 4) : "") + l).join('\n')}` : " []";
+            }
+            return `\n${pad(indent + 2)}-${placeholderValue(schema, itemSchema, indent + 2, depth + 1)}`;
+        }
+        case 'map':
+        case 'include':
+            return " {}";
+        default:
+            return ' ""';
+    }
+}
+
+/**
+ * Builds the edit inserting a missing field into a map: after the map's last entry, at the indentation of its keys.
+ * Returns undefined for flow maps ({ a: 1 }), which can't take a new line.
+ */
+function missingFieldFix(ctx: ValidationContext, mapNode: YAMLMap | null, key: string, schema: SchemaNode): YamaleFix | undefined {
+    const pairs = (mapNode?.items || []) as Pair<Node, Node>[];
+    const lastPair = pairs[pairs.length - 1];
+    if (!mapNode || !lastPair?.key?.range) {
+        // empty document: insert top-level field at the start of the file
+        return mapNode ? undefined : { insert: { position: { line: 0, character: 0 }, text: `${key}:${placeholderValue(ctx.schema, schema, 0)}\n` } };
+    }
+    if (mapNode.flow) {
+        return undefined;
+    }
+
+    const indent = ctx.lineCounter.linePos(pairs[0].key.range![0]).col - 1;
+    // insert at the end of the line holding the end of the last entry's value
+    let end = (lastPair.value as Node | null)?.range?.[1] ?? lastPair.key.range[1];
+    while (end > 0 && /\s/.test(ctx.source[end - 1])) {
+        end -= 1;
+    }
+    const lineEnd = ctx.source.indexOf('\n', end);
+    const position = toPositions(ctx, [lineEnd === -1 ? ctx.source.length : lineEnd, lineEnd === -1 ? ctx.source.length : lineEnd]).start;
+    return { insert: { position, text: `\n${' '.repeat(indent)}${key}:${placeholderValue(ctx.schema, schema, indent)}` } };
+}
+
+/**
+ * Resolves aliases (*anchor) to the node they point to.
+ */
+function resolveNode(ctx: ValidationContext, node: unknown): Node | null {
+    if (isAlias(node)) {
+        return (node.resolve(ctx.document) as Node | undefined) || null;
+    }
+    return (node as Node | null) || null;
+}
+
+/**
+ * Returns JS value of a node (scalar value, or plain object / array for maps & lists).
+ */
+function nodeValue(node: Node | null): unknown {
+    if (!node) {
+        return null;
+    }
+    return isScalar(node) ? node.value : node.toJSON();
+}
+
+/**
+ * Validates a node against a schema node, reporting errors at the node (or at the owning key if the node has no source of its own).
+ * A missing node is passed as undefined; a present node with an empty value as null.
+ * Returns number of errors added, so any() & list() can check alternatives without keeping their errors.
+ */
+function validateNode(ctx: ValidationContext, schema: SchemaNode, node: Node | null | undefined, path: (string | number)[], owner: OffsetRange, strict: boolean): number {
+    const errorCount = ctx.errors.length;
+    const range = firstLineRange(ctx, node, owner);
+
+    if (node === undefined) {
+        if (isRequired(schema)) {
+            addError(ctx, path, "Required field missing", owner);
+        }
+        return ctx.errors.length - errorCount;
+    }
+
+    if (schema.type === 'map') {
+        if (!isMap(node)) {
+            addError(ctx, path, `'${formatValue(nodeValue(node))}' is not a map.`, range);
+        } else {
+            // missing fields are reported at the key owning the map, like the parent field annotations of the Yamale CLI integration
+            validateStaticMap(ctx, schema, node, path, owner, strict);
+        }
+    } else if (schema.type === 'list') {
+        if (!isSeq(node)) {
+            addError(ctx, path, `'${formatValue(nodeValue(node))}' is not a list.`, range);
+        } else {
+            const items = node.items.map(item => resolveNode(ctx, item));
+            schema.items.forEach((itemSchema, i) => validateNode(ctx, itemSchema, i < items.length ? items[i] : undefined, [...path, i], range, strict));
+            if (strict) {
+                for (let i = schema.items.length; i < items.length; i++) {
+                    addError(ctx, [...path, i], "Unexpected element", firstLineRange(ctx, items[i], range));
+                }
+            }
+        }
+    } else {
+        validateValidator(ctx, schema, node, path, range, owner, strict);
+    }
+    return ctx.errors.length - errorCount;
+}
+
+/**
+ * Validates the keys of a map against the fields of a static map schema; in strict mode, keys not in the schema are errors.
+ */
+function validateStaticMap(ctx: ValidationContext, schema: StaticMap, mapNode: YAMLMap | null, path: (string | number)[], owner: OffsetRange, strict: boolean) {
+    const pairsByKey = new Map<string, Pair<Node, Node>>();
+    for (const pair of (mapNode?.items || []) as Pair<Node, Node>[]) {
+        pairsByKey.set(formatValue(nodeValue(resolveNode(ctx, pair.key))), pair);
+    }
+
+    for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        const pair = pairsByKey.get(key);
+        if (!pair) {
+            if (isRequired(fieldSchema)) {
+                addError(ctx, [...path, key], "Required field missing", owner, missingFieldFix(ctx, mapNode, key, fieldSchema));
+            }
+            continue;
+        }
+        validateNode(ctx, fieldSchema, resolveNode(ctx, pair.value), [...path, key], firstLineRange(ctx, pair.key, owner), strict);
+    }
+
+    if (strict) {
+        for (const [key, pair] of pairsByKey) {
+            if (!(key in schema.fields)) {
+                addError(ctx, [...path, key], "Unexpected element", firstLineRange(ctx, pair.key, owner));
+            }
+        }
+    }
+}
+
+/**
+ * Validates a node against any of the given validators. Errors are only kept if no validator accepts the node.
+ */
+function validateAlternatives(ctx: ValidationContext, alternatives: ValidatorArg[], node: Node | null, path: (string | number)[], owner: OffsetRange, strict: boolean): boolean {
+    const schemas = alternatives.filter((a): a is SchemaNode => !!a && typeof a === 'object');
+    if (schemas.length === 0) {
+        return true;
+    }
+
+    // like Yamale, errors of every alternative are reported when none of them matches
+    const errorCount = ctx.errors.length;
+    for (const schema of schemas) {
+        if (validateNode(ctx, schema, node, path, owner, strict) === 0) {
+            ctx.errors.splice(errorCount);
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Checks min / max keyword arguments of a validator against a value (numbers) or length (strings, lists, maps).
+ */
+function checkBounds(ctx: ValidationContext, validator: Validator, subject: string, measured: number, path: (string | number)[], range: OffsetRange) {
+    if (typeof validator.kwargs.min === 'number' && measured < validator.kwargs.min) {
+        addError(ctx, path, `${subject} is less than ${validator.kwargs.min}`, range);
+    } else if (typeof validator.kwargs.max === 'number' && measured > validator.kwargs.max) {
+        addError(ctx, path, `${subject} is greater than ${validator.kwargs.max}`, range);
+    }
+}
+
+/**
+ * Validates a present node against a validator call (str, int, enum, list, include, ...).
+ */
+function validateValidator(ctx: ValidationContext, validator: Validator, node: Node | null, path: (string | number)[], range: OffsetRange, owner: OffsetRange, strict: boolean) {
+    const value = nodeValue(node);
+    const fail = (typeName: string) => addError(ctx, path, `'${formatValue(value)}' is not a ${typeName}.`, range);
+    const length = `Length of ${formatValue(value)}`;
+
+    // optional fields may be left empty unless none=False (empty required fields fail their type check, e.g. 'None' is not a str.)
+    if (value === null && !isRequired(validator) && validator.kwargs.none !== false) {
+        return;
+    }
+
+    switch (validator.name) {
+        case 'str': {
+            if (typeof value !== 'string') {
+                fail('str');
+                return;
+            }
+            checkBounds(ctx, validator, length, value.length, path, range);
+            const { equals, starts_with, ends_with, matches, exclude } = validator.kwargs;
+            if (typeof equals === 'string' && value !== equals) {
+                addError(ctx, path, `${value} does not equal ${equals}`, range);
+            }
+            if (typeof starts_with === 'string' && !value.startsWith(starts_with)) {
+                addError(ctx, path, `${value} does not start with ${starts_with}`, range);
+            }
+            if (typeof ends_with === 'string' && !value.endsWith(ends_with)) {
+                addError(ctx, path, `${value} does not end with ${ends_with}`, range);
+            }
+            const matchesRegex = typeof matches === 'string' ? compilePattern(matches, "", path) : null;
+            if (typeof matches === 'string' && matchesRegex && !matchesRegex.test(value)) {
+                addError(ctx, path, `${value} does not match regex '${matches}'`, range);
+            }
+            if (typeof exclude === 'string' && [...exclude].some(c => value.includes(c))) {
+                addError(ctx, path, `'${value}' contains excluded character`, range);
+            }
+            return;
+        }
+        case 'int': {
+            // integers written with a decimal point / exponent are floats in Python
+            const source = isScalar(node) ? String(node.source ?? "") : "";
+            if (typeof value !== 'number' || !Number.isInteger(value) || /[.eE]/.test(source) && !/^0x/i.test(source)) {
+                fail('int');
+                return;
+            }
+            checkBounds(ctx, validator, formatValue(value), value, path, range);
+            return;
+        }
+        case 'num': {
+            if (typeof value !== 'number') {
+                fail('num');
+                return;
+            }
+            checkBounds(ctx, validator, formatValue(value), value, path, range);
+            return;
+        }
+        case 'bool':
+            if (typeof value !== 'boolean') {
+                fail('bool');
+            }
+            return;
+        case 'null':
+            if (value !== null) {
+                fail('null');
+            }
+            return;
+        case 'enum':
+            if (!validator.args.some(a => a === value)) {
+                const options = validator.args.map(a => typeof a === 'string' ? `'${a}'` : formatValue(a)).join(', ');
+                addError(ctx, path, `'${formatValue(value)}' not in (${options}${validator.args.length === 1 ? "," : ""})`, range, node?.range && node.range[1] > node.range[0] ? { replacements: validator.args.map(yamlScalar) } : undefined);
+            }
+            return;
+        case 'day':
+            if (!(value instanceof Date) && !(typeof value === 'string' && DAY.test(value))) {
+                fail('day');
+            }
+            return;
+        case 'timestamp':
+            if (!(value instanceof Date) && !(typeof value === 'string' && !isNaN(Date.parse(value)))) {
+                fail('timestamp');
+            }
+            return;
+        case 'ip': {
+            const version = validator.kwargs.version;
+            const detected = typeof value === 'string' ? isIP(value) : 0;
+            if (detected === 0 || (typeof version === 'number' && detected !== version)) {
+                fail('ip');
+            }
+            return;
+        }
+        case 'mac':
+            if (typeof value !== 'string' || !MAC_ADDRESS.test(value)) {
+                fail('mac');
+            }
+            return;
+        case 'regex': {
+            const flags = validator.kwargs.ignore_case === true ? 'i' : "";
+            const patterns = validator.args.filter((a): a is string => typeof a === 'string');
+            const regexes = patterns.map(p => compilePattern(p, flags, path)).filter((r): r is RegExp => r !== null);
+            // skip the check if none of its patterns compile (see compilePattern)
+            if (patterns.length > 0 && regexes.length === 0) {
+                return;
+            }
+            if (typeof value !== 'string' || !regexes.some(r => r.test(value))) {
+                fail(typeof validator.kwargs.name === 'string' ? validator.kwargs.name : 'regex match');
+            }
+            return;
+        }
+        case 'any':
+            validateAlternatives(ctx, validator.args, node, path, range, strict);
+            return;
+        case 'list': {
+            if (!isSeq(node)) {
+                fail('list');
+                return;
+            }
+            checkBounds(ctx, validator, length, node.items.length, path, range);
+            node.items.forEach((item, i) => {
+                const itemNode = resolveNode(ctx, item);
+                validateAlternatives(ctx, validator.args, itemNode, [...path, i], firstLineRange(ctx, itemNode, range), strict);
+            });
+            return;
+        }
+        case 'map': {
+            if (!isMap(node)) {
+                fail('map');
+                return;
+            }
+            checkBounds(ctx, validator, length, node.items.length, path, range);
+            const keyValidator = validator.kwargs.key;
+            for (const pair of node.items) {
+                const keyNode = resolveNode(ctx, pair.key);
+                const key = formatValue(nodeValue(keyNode));
+                const keyRange = firstLineRange(ctx, keyNode, range);
+                if (keyValidator && typeof keyValidator === 'object') {
+                    validateNode(ctx, keyValidator, keyNode, [...path, key], keyRange, strict);
+                }
+                validateAlternatives(ctx, validator.args, resolveNode(ctx, pair.value), [...path, key], keyRange, strict);
+            }
+            return;
+        }
+        case 'include': {
+            const name = String(validator.args[0]);
+            const included = ctx.schema.includes[name];
+            if (!included) {
+                addError(ctx, path, `Include '${name}' has not been defined.`, range);
+                return;
+            }
+            const includeStrict = typeof validator.kwargs.strict === 'boolean' ? validator.kwargs.strict : strict;
+            validateNode(ctx, included, node, path, owner, includeStrict);
+            return;
+        }
+        case 'subset': {
+            // subset accepts a single value or a list whose items each match one of the validators
+            const items = isSeq(node) ? node.items.map(item => resolveNode(ctx, item)) : [node];
+            if (items.length === 0 && validator.kwargs.allow_empty !== true) {
+                addError(ctx, path, "subset may not be an empty set.", range);
+            }
+            items.forEach((itemNode, i) => {
+                validateAlternatives(ctx, validator.args, itemNode, isSeq(node) ? [...path, i] : path, firstLineRange(ctx, itemNode, range), strict);
+            });
+            return;
+        }
+        default:
+            // unknown validators (e.g. custom ones registered in Python) accept any value rather than failing the whole file
+            console.warn(`Unsupported Yamale validator '${validator.name}' at ${path.join('.')}, skipping.`);
+            return;
+    }
+}
+
+/**
+ * Compiles a Python regex of a Yamale schema into a JavaScript RegExp anchored at the start (like Python's re.match), once per pattern & flags.
+ * Python-only syntax is translated: named groups (?P<name>...) & (?P=name), leading inline flags such as (?i), and \Z.
+ * Returns null if the pattern still can't be compiled, so the check is skipped rather than failing the whole file.
+ */
+function compilePattern(pattern: string, flags: string, path: (string | number)[]): RegExp | null {
+    const cacheKey = `${flags}/${pattern}`;
+    if (patternCache.has(cacheKey)) {
+        return patternCache.get(cacheKey) ?? null;
+    }
+
+    let source = pattern
+        .replace(/\(\?P<(\w+)>/g, '(?<$1>')
+        .replace(/\(\?P=(\w+)\)/g, '\\k<$1>')
+        .replace(/(^|[^\\])((?:\\\\)*)\\Z/g, '$1$2$$');
+    let regexFlags = flags;
+    const inlineFlags = source.match(/^\(\?([ims]+)\)/);
+    if (inlineFlags) {
+        source = source.slice(inlineFlags[0].length);
+        regexFlags = [...new Set([...regexFlags, ...inlineFlags[1]])].join('');
+    }
+
+    let regex: RegExp | null = null;
+    try {
+        regex = new RegExp(`^(?:${source})`, regexFlags);
+    } catch (error) {
+        console.warn(`Unsupported regex '${pattern}' in Yamale schema at ${path.join('.')}, skipping: ${error instanceof Error ? error.message : error}`);
+    }
+    patternCache.set(cacheKey, regex);
+    return regex;
+}
+
+/**
+ * Validates vars file content against a parsed Yamale schema, like the Yamale CLI does in strict mode (the default).
+ * Every YAML document in the vars file is validated; YAML syntax errors are reported as errors at their own position.
+ * Returns errors in source order.
+ */
+function validateYamale(schema: YamaleSchema, content: string, strict: boolean = true): YamaleError[] {
+    const lineCounter = new LineCounter();
+    // Yamale loads vars files with PyYAML, which follows YAML 1.1 (e.g. yes / no are booleans)
+    const documents = parseAllDocuments(content, { lineCounter, version: '1.1' });
+    const errors: YamaleError[] = [];
+    const parsedDocuments = Array.isArray(documents) ? documents : [];
+
+    for (const document of parsedDocuments.length > 0 ? parsedDocuments : [undefined]) {
+        const ctx: ValidationContext = { schema, document: document as Document.Parsed, source: content, lineCounter, errors };
+        if (document && document.errors.length > 0) {
+            for (const error of document.errors) {
+                addError(ctx, [], `YAML syntax error: ${error.message.split('\n')[0].replace(/:$/, "")}`, error.pos);
+            }
+            continue;
+        }
+
+        const contents = document?.contents ?? null;
+        const startRange: OffsetRange = firstLineRange(ctx, contents, [0, Math.max(0, content.indexOf('\n'))]);
+        if (schema.root.type === 'map' && (contents === null || (isScalar(contents) && contents.value === null))) {
+            // empty vars file: report every required top-level field as missing
+            validateStaticMap(ctx, schema.root, null, [], startRange, strict);
+        } else {
+            validateNode(ctx, schema.root, contents, [], startRange, strict);
+        }
+    }
+
+    return errors.sort((a, b) => a.start.line - b.start.line || a.start.character - b.start.character);
+}
+
+/**
+ * Formats errors like the Yamale CLI output ("<key_path>: <error_message>" per error).
+ */
+function formatYamaleErrors(errors: YamaleError[]): string[] {
+    return errors.map(e => e.path ? `${e.path}: ${e.message}` : e.message);
+}
+
+export { LIST_ITEM, parseYamaleSchema, loadYamaleSchema, validateYamale, formatYamaleErrors, isRequired, resolveInclude, placeholderValue, schemaNodeAtPath, formatSchemaNode };